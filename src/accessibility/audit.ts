@@ -0,0 +1,107 @@
+import * as core from '@actions/core';
+import * as axe from 'axe-core';
+import { Page } from 'playwright';
+import { AccessibilityImpact, AccessibilityViolation } from '../api/client';
+
+// WCAG 2.0/2.1 A and AA rules: labels, contrast, landmarks/headings, accessible names
+const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice'];
+
+const MAX_SELECTORS_PER_RULE = 5;
+
+const IMPACT_ORDER: AccessibilityImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+// axe is injected into the page as a global
+declare global {
+  interface Window {
+    axe?: typeof axe;
+  }
+}
+
+/**
+ * Run axe-core WCAG checks against the current page.
+ * Returns an empty list (and logs) if the audit itself fails.
+ */
+export async function auditPage(page: Page): Promise<AccessibilityViolation[]> {
+  const pageUrl = page.url();
+
+  try {
+    // Inject axe unless a previous audit on this document already did
+    const loaded = await page.evaluate(() => typeof window.axe !== 'undefined');
+    if (!loaded) {
+      await page.evaluate(axe.source);
+    }
+
+    const results = await page.evaluate(async (tags) => {
+      const run: axe.AxeResults = await window.axe!.run(document, {
+        runOnly: { type: 'tag', values: tags },
+      });
+      return run.violations.map((v: axe.Result) => ({
+        id: v.id,
+        impact: v.impact,
+        help: v.help,
+        helpUrl: v.helpUrl,
+        targets: v.nodes.map((n: axe.NodeResult) => n.target.join(' ')),
+      }));
+    }, WCAG_TAGS) as Array<{ id: string; impact: AccessibilityImpact | null; help: string; helpUrl: string; targets: string[] }>;
+
+    return results.map(v => ({
+      rule: v.id,
+      impact: v.impact || 'minor',
+      description: v.help,
+      help_url: v.helpUrl,
+      page_url: pageUrl,
+      selectors: v.targets.slice(0, MAX_SELECTORS_PER_RULE),
+      element_count: v.targets.length,
+    }));
+  } catch (error) {
+    core.warning(`Accessibility audit failed on ${pageUrl}: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Whether a violation's impact is at or above the given severity.
+ */
+export function meetsSeverity(impact: AccessibilityImpact, threshold: AccessibilityImpact): boolean {
+  return IMPACT_ORDER.indexOf(impact) >= IMPACT_ORDER.indexOf(threshold);
+}
+
+export function isAccessibilityImpact(value: string): value is AccessibilityImpact {
+  return (IMPACT_ORDER as string[]).includes(value);
+}
+
+function urlPath(url: string): string {
+  try {
+    return new URL(url).pathname.replace(/\/$/, '') || '/';
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Merge violations from flows and the crawler: one entry per rule per page,
+ * flagging those on pages the PR touched.
+ */
+export function mergeViolations(
+  violations: AccessibilityViolation[],
+  changedPaths: string[] = []
+): AccessibilityViolation[] {
+  const changed = new Set(changedPaths.map(p => urlPath(new URL(p, 'http://x').href)));
+  const merged = new Map<string, AccessibilityViolation>();
+
+  for (const violation of violations) {
+    const key = `${violation.rule}|${urlPath(violation.page_url)}`;
+    if (!merged.has(key)) {
+      merged.set(key, {
+        ...violation,
+        changed_page: changed.has(urlPath(violation.page_url)),
+      });
+    }
+  }
+
+  // Most severe first, changed pages first within a severity
+  return [...merged.values()].sort((a, b) =>
+    IMPACT_ORDER.indexOf(b.impact) - IMPACT_ORDER.indexOf(a.impact) ||
+    Number(!!b.changed_page) - Number(!!a.changed_page)
+  );
+}
@@ -20,11 +20,122 @@ export interface SiteContext {
   pages: PageContext[];
 }
 
+/**
+ * Typed check evaluated by an 'assert' step.
+ * Without an assertion, 'assert' checks that the selector is visible.
+ */
+export interface StepAssertion {
+  type: 'visible' | 'hidden' | 'text' | 'url' | 'count' | 'attribute' | 'enabled' | 'disabled' | 'value';
+  operator?: 'equals' | 'contains' | 'matches';  // For text/url/attribute/value (default: equals)
+  expected?: string | number;
+  attribute?: string;  // Attribute name for 'attribute' assertions
+}
+
+/**
+ * Canned network behaviour for requests matching a URL pattern.
+ */
+export interface RouteMock {
+  url: string;                  // Glob ('**/api.stripe.com/**') or regex ('/maps\\.googleapis/')
+  action?: 'fulfill' | 'abort' | 'delay';  // default: fulfill
+  method?: string;              // Only mock requests with this HTTP method
+  status?: number;              // fulfill: HTTP status (default: 200)
+  json?: unknown;               // fulfill: JSON response body
+  body?: string;                // fulfill: raw response body
+  fixture?: string;             // fulfill: response body file (relative to fixtures dir)
+  content_type?: string;
+  headers?: Record<string, string>;
+  delay_ms?: number;            // Wait before responding (or, for 'delay', before continuing)
+  error_code?: string;          // abort: network error, e.g. 'failed', 'timedout' (default: failed)
+}
+
+/**
+ * Throttling profile, or offline. 'online' (set_network steps only) restores the normal network.
+ */
+export type NetworkProfile = 'offline' | 'slow-3g' | 'fast-3g' | '4g' | 'online';
+
+/**
+ * Browser emulation for a flow's context. Flow settings override the action inputs.
+ */
+export interface EmulationSettings {
+  locale?: string;            // BCP 47 tag, e.g. 'de-DE'
+  timezone?: string;          // IANA zone, e.g. 'Asia/Tokyo'
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };  // Also grants the geolocation permission
+  permissions?: string[];     // Extra permissions to grant, e.g. ['notifications', 'clipboard-read']
+  color_scheme?: 'light' | 'dark' | 'no-preference';
+  reduced_motion?: boolean;   // prefers-reduced-motion: reduce
+  network?: NetworkProfile;   // Throttling (Chromium only) or offline, from the first step
+}
+
+/**
+ * How a flow answers alert/confirm/prompt/beforeunload dialogs.
+ */
+export interface DialogPolicy {
+  action?: 'accept' | 'dismiss';  // default: accept
+  prompt_text?: string;           // Text entered into prompt() dialogs when accepting
+  expected_message?: string;      // Fail the step if a dialog's message doesn't contain this (or match a /regex/)
+}
+
+/**
+ * Checks an 'expect_download' step runs on the downloaded file.
+ */
+export interface DownloadExpectation {
+  filename?: string;          // Exact suggested filename, or a /regex/
+  mime_type?: string;         // e.g. 'text/csv' (extension checked against the file's content)
+  min_bytes?: number;
+  max_bytes?: number;
+  contains?: string;          // Text the file must contain
+  columns?: string[];         // CSV: header columns that must be present
+  min_rows?: number;          // CSV: minimum data rows (excluding the header)
+  json_path?: string;         // JSON: dot path that must exist, e.g. 'items.0.id'
+  json_value?: string | number | boolean;  // JSON: value expected at json_path
+}
+
+/**
+ * The file an 'expect_download' step received.
+ */
+export interface DownloadInfo {
+  filename: string;
+  size_bytes: number;
+  mime_type: string;
+  rows?: number;  // CSV data rows
+}
+
+/**
+ * What an 'extract' step reads into a flow variable.
+ */
+export interface StepExtraction {
+  source: 'text' | 'attribute' | 'value' | 'url';
+  attribute?: string;  // attribute: attribute name
+  segment?: number;    // url: path segment index (negative counts from the end)
+  pattern?: string;    // Regex to narrow the value; the first capture group is kept
+}
+
+/**
+ * Page load state to wait for after navigating (or after any step that sets it).
+ */
+export type WaitUntil = 'load' | 'domcontentloaded' | 'networkidle';
+
 export interface PlaywrightStep {
   action: string;
   selector?: string;
   value?: string;
   description: string;
+  values?: string[];          // select: multiple option values/labels
+  key?: string;               // press: key or chord, e.g. 'Enter', 'Control+A'
+  files?: string[];           // upload: fixture paths (relative to fixtures dir)
+  target_selector?: string;   // drag: drop target
+  assertion?: StepAssertion;  // assert: what to check (default: selector is visible)
+  mock?: RouteMock;           // mock: route to add mid-flow (unmock takes the url pattern as value)
+  timeout_ms?: number;        // Overrides the flow/action step timeout
+  wait_until?: WaitUntil;     // Load state to wait for after this step
+  wait_for_selector?: string; // Wait for this element to be visible after the step
+  wait_for_response?: string; // Wait for a response matching this URL pattern, started before the step
+  variable?: string;          // extract: variable name, used later as {{name}} in selectors and values
+  extract?: StepExtraction;   // extract: what to read (default: selector text, or the URL without one)
+  frame?: string | string[];  // Iframe selector the step's selectors resolve in (an array for nested frames)
+  opens_popup?: boolean;      // The step opens a popup or new tab, which becomes the active page
+  download?: DownloadExpectation;  // expect_download: checks on the file (clicks selector first, if given; otherwise an earlier step's download)
+  soft?: boolean;             // assert: keep running the flow if this assertion fails (overrides the flow setting)
 }
 
 export interface FlowPlan {
@@ -33,6 +144,14 @@ export interface FlowPlan {
   priority: number;
   reasoning: string;
   steps: PlaywrightStep[];
+  mocks?: RouteMock[];  // Routes installed before the first step
+  role?: string;        // Test account role the flow must run as (e.g. 'admin')
+  timeout_ms?: number;       // Fail the flow once it has run this long
+  step_timeout_ms?: number;  // Default timeout for this flow's steps
+  wait_until?: WaitUntil;    // Default load state for this flow's navigate steps
+  dialogs?: DialogPolicy;    // How to answer native dialogs (default: accept)
+  emulation?: EmulationSettings;
+  soft_assertions?: boolean;  // Failed assert steps don't stop the flow
 }
 
 export interface TestPlan {
@@ -46,21 +165,105 @@ export interface PlanResponse {
   stream_url: string;
 }
 
+export interface FailedRequest {
+  url: string;
+  method: string;
+  status?: number;   // HTTP status for 4xx/5xx responses
+  failure?: string;  // Network error text for requests that never completed
+}
+
+/**
+ * Problems observed on the page while a flow ran.
+ */
+export interface FlowDiagnostics {
+  console_errors: string[];
+  page_errors: string[];  // Uncaught exceptions
+  failed_requests: FailedRequest[];
+}
+
+/**
+ * One execution attempt of a flow (recorded when the flow was retried).
+ */
+export interface FlowAttempt {
+  attempt: number;
+  status: 'passed' | 'failed';
+  duration_ms: number;
+  error_message?: string;
+  trace_path?: string;
+}
+
+/**
+ * Outcome of comparing a flow's final screenshot with its stored baseline.
+ */
+export interface VisualResult {
+  status: 'unchanged' | 'visual_changed' | 'new_baseline';
+  diff_ratio: number;     // Fraction of pixels that differ (0-1)
+  baseline_path: string;
+  diff_path?: string;     // Diff image, when changed (a data URL once uploaded)
+}
+
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+/**
+ * A WCAG rule violated on a page, with selectors of offending elements.
+ */
+export interface AccessibilityViolation {
+  rule: string;           // axe-core rule id, e.g. 'color-contrast', 'label'
+  impact: AccessibilityImpact;
+  description: string;
+  help_url: string;
+  page_url: string;
+  selectors: string[];    // First few offending elements
+  element_count: number;
+  changed_page?: boolean; // Page is one the PR touched
+}
+
+/**
+ * Web Vitals and page weight measured after a 'navigate' step.
+ */
+export interface NavigationMetrics {
+  url: string;
+  lcp_ms?: number;        // Largest Contentful Paint (not reported by WebKit)
+  cls?: number;           // Cumulative Layout Shift (Chromium only)
+  ttfb_ms?: number;       // Time to first byte of the document
+  transfer_bytes: number; // Document plus every subresource
+  js_bytes: number;       // Script resources only
+  budget_violations?: string[];     // e.g. 'LCP 3200ms > 2500ms'
+  budget_mode?: 'fail' | 'warn';    // How the matching budget treats violations
+}
+
 export interface ResultPayload {
   flow_name: string;
-  status: 'passed' | 'failed' | 'skipped';
+  status: 'passed' | 'failed' | 'skipped' | 'flaky';  // flaky = passed on retry
   duration_ms: number;
   error_message?: string;
   steps: StepResult[];
   screenshot_urls: string[];
   viewport?: string;  // 'desktop' | 'mobile'
+  browser?: string;   // 'chromium' | 'firefox' | 'webkit'
+  role?: string;      // Role of the test account the flow ran as
+  trace_path?: string;  // Playwright trace zip, kept for failed flows
+  diagnostics?: FlowDiagnostics;
+  attempts?: FlowAttempt[];  // Every attempt, when the flow was retried
+  visual?: VisualResult;
+  accessibility?: AccessibilityViolation[];
+  performance?: NavigationMetrics[];  // One entry per navigate step
 }
 
 export interface StepResult {
   description: string;
-  status: 'passed' | 'failed';
+  status: 'passed' | 'failed' | 'skipped';  // skipped = not run after an earlier step failed
   duration_ms: number;
   error?: string;
+  expected?: string;  // Assertion steps: expected value
+  actual?: string;    // Assertion steps: value observed on the page
+  healed_selector?: string;  // Replacement selector used after the planned one timed out
+  variables?: Record<string, string>;  // Variables this step extracted or used
+  dialogs?: string[];        // Messages of native dialogs shown during the step
+  download?: DownloadInfo;   // expect_download: the file received
+  screenshot?: string;       // Filmstrip frame taken after the step (step-screenshots)
+  dom_snapshot?: string;     // Failed steps: sanitized HTML at the point of failure
+  accessibility_tree?: string;  // Failed steps: ARIA snapshot (YAML) at the point of failure
 }
 
 export interface Project {
@@ -82,6 +285,12 @@ export interface TestAccount {
   password_selector?: string;
   submit_selector?: string;
   success_indicator?: string;
+  api_key?: string;             // api_key: key value (falls back to password)
+  api_key_header?: string;      // api_key: header to send the key in (default: Authorization)
+  api_key_cookie?: string;      // api_key: cookie to set the key as, instead of a header
+  storage_state_path?: string;  // oauth: Playwright storage state file from a manual SSO login
+  totp_secret?: string;         // Base32 secret or otpauth:// URI for two-factor login
+  totp_selector?: string;       // One-time-code input (auto-detected if not provided)
   is_default: boolean;
   is_active: boolean;
 }
@@ -245,7 +454,7 @@ export class ScoutAIClient {
   async completeRun(
     runId: string,
     status: 'passed' | 'failed' | 'error',
-    summary: { passed: number; failed: number; skipped: number }
+    summary: { passed: number; failed: number; skipped: number; flaky?: number }
   ): Promise<void> {
     await this.request('POST', `/api/runs/${runId}/complete/`, {
       status,
@@ -0,0 +1,202 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import { BrowserContext, BrowserContextOptions } from 'playwright';
+import { TestAccount } from '../api/client';
+import { BrowserName, launchBrowser, viewportContextOptions } from '../browser';
+import { AuthResult, isLoginPage, loginWithForm } from './login';
+import {
+  applySessionAuth,
+  describeSessionAuth,
+  sessionAuthFromAccount,
+  sessionContextOptions,
+  validateSessionAuth,
+} from './session';
+
+export type { AuthResult } from './login';
+
+/**
+ * Storage state saved by a form login: cookies and each origin's localStorage.
+ */
+type SavedStorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// Re-logins per account per run, so a login page that always bounces can't loop
+const MAX_RELOGINS = 2;
+
+/**
+ * Logs in each test account once per run and shares the session between the
+ * crawler and every flow, on every browser. Form logins are saved as a
+ * Playwright storage state; basic, API key and SSO accounts are applied to
+ * each context directly.
+ */
+export class AuthManager {
+  private baseUrl: string;
+  private browserName: BrowserName;
+  private results = new Map<string, AuthResult>();
+  private storageStates = new Map<string, string>();
+  private pending = new Map<string, Promise<AuthResult>>();
+  private relogins = new Map<string, number>();
+
+  constructor(baseUrl: string, browserName: BrowserName = 'chromium') {
+    this.baseUrl = baseUrl;
+    this.browserName = browserName;
+  }
+
+  /**
+   * Authenticate an account, reusing the result of an earlier login this run.
+   */
+  async login(account: TestAccount): Promise<AuthResult> {
+    const cached = this.results.get(account.id);
+    if (cached) return cached;
+    return this.authenticate(account);
+  }
+
+  /**
+   * Log in again after the session expired. Concurrent callers share one login.
+   */
+  async relogin(account: TestAccount): Promise<AuthResult> {
+    const inFlight = this.pending.get(account.id);
+    if (inFlight) return inFlight;
+
+    const count = this.relogins.get(account.id) || 0;
+    if (count >= MAX_RELOGINS) {
+      return this.results.get(account.id) || { success: false, account: account.name, error: 'Too many re-logins' };
+    }
+    this.relogins.set(account.id, count + 1);
+    this.results.delete(account.id);
+    return this.authenticate(account);
+  }
+
+  /**
+   * Whether landing on a URL, when another page was requested, means the account's
+   * session has expired. Only form logins expire this way; the other auth types
+   * are applied to every request.
+   */
+  isSessionExpired(landedUrl: string, requestedUrl: string, account: TestAccount): boolean {
+    return account.auth_type === 'form' &&
+      this.results.get(account.id)?.success === true &&
+      isLoginPage(landedUrl, account, this.baseUrl) &&
+      !isLoginPage(requestedUrl, account, this.baseUrl);
+  }
+
+  /**
+   * Copy the account's current session (cookies and localStorage) into an open
+   * context after a re-login, so a running flow can continue.
+   */
+  async refreshContext(context: BrowserContext, account: TestAccount): Promise<void> {
+    const storageState = this.storageStates.get(account.id);
+    if (!storageState) return;
+    const state: SavedStorageState = JSON.parse(fs.readFileSync(storageState, 'utf-8'));
+    await context.clearCookies();
+    await context.addCookies(state.cookies || []);
+
+    // SPAs keep their token in localStorage: restore it on the next load of each origin,
+    // once per tab so the app's own later changes (e.g. logging out) aren't overwritten
+    const origins = (state.origins || []).filter(o => o.localStorage.length > 0);
+    if (origins.length > 0) {
+      await context.addInitScript(({ origins, marker }) => {
+        const saved = origins.find(o => o.origin === window.location.origin);
+        if (!saved) return;
+        try {
+          if (window.sessionStorage.getItem(marker)) return;
+          for (const { name, value } of saved.localStorage) {
+            window.localStorage.setItem(name, value);
+          }
+          window.sessionStorage.setItem(marker, '1');
+        } catch {
+          // Storage blocked for this document
+        }
+      }, { origins, marker: `scoutai-session-restored-${Date.now()}` });
+    }
+  }
+
+  isAuthenticated(account: TestAccount | null): boolean {
+    return !!account && this.results.get(account.id)?.success === true;
+  }
+
+  /**
+   * Every failed login this run, for the PR comment.
+   */
+  failures(): AuthResult[] {
+    return [...this.results.values()].filter(r => !r.success);
+  }
+
+  /**
+   * Context options that carry the account's session.
+   */
+  contextOptions(account: TestAccount | null): BrowserContextOptions {
+    if (!account || !this.isAuthenticated(account)) return {};
+
+    const session = sessionAuthFromAccount(account);
+    if (session) {
+      return sessionContextOptions(session, this.baseUrl);
+    }
+    const storageState = this.storageStates.get(account.id);
+    return storageState ? { storageState } : {};
+  }
+
+  /**
+   * Apply per-context auth (API keys) once the context exists.
+   */
+  async prepareContext(context: BrowserContext, account: TestAccount | null): Promise<void> {
+    if (!account || !this.isAuthenticated(account)) return;
+    const session = sessionAuthFromAccount(account);
+    if (session) {
+      await applySessionAuth(context, session, this.baseUrl);
+    }
+  }
+
+  private authenticate(account: TestAccount): Promise<AuthResult> {
+    const inFlight = this.pending.get(account.id);
+    if (inFlight) return inFlight;
+
+    const promise = this.performLogin(account).then(result => {
+      this.results.set(account.id, result);
+      this.pending.delete(account.id);
+      if (!result.success) {
+        core.warning(`  ✗ Authentication failed for ${account.name}: ${result.error}`);
+        core.warning('  Continuing without authentication...');
+      }
+      return result;
+    });
+    this.pending.set(account.id, promise);
+    return promise;
+  }
+
+  private async performLogin(account: TestAccount): Promise<AuthResult> {
+    core.info(`Authenticating as ${account.name} (${account.role})...`);
+    const base = { account: account.name, role: account.role, authType: account.auth_type };
+
+    // Basic, API key and SSO accounts need no login, just a usable config
+    const session = sessionAuthFromAccount(account);
+    if (session) {
+      const error = validateSessionAuth(session);
+      if (error) {
+        return { ...base, success: false, stage: 'config', error };
+      }
+      core.info(`  ✓ Using ${describeSessionAuth(session)} for ${account.name}`);
+      return { ...base, success: true };
+    }
+
+    const browser = await launchBrowser(this.browserName);
+    try {
+      const context = await browser.newContext(viewportContextOptions('desktop', this.browserName));
+      const page = await context.newPage();
+      const result = await loginWithForm(page, account, this.baseUrl);
+
+      if (result.success) {
+        // Save storage state (cookies, localStorage) for reuse
+        const accountSlug = account.id.replace(/[^a-zA-Z0-9_-]/g, '_');
+        const storageState = `./scoutai-auth-state-${accountSlug}.json`;
+        await context.storageState({ path: storageState });
+        this.storageStates.set(account.id, storageState);
+        core.info(`  ✓ Authenticated successfully as ${account.name}`);
+      }
+      return result;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      return { ...base, success: false, error: msg };
+    } finally {
+      await browser.close();
+    }
+  }
+}
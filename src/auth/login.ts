@@ -0,0 +1,146 @@
+import * as core from '@actions/core';
+import { Page } from 'playwright';
+import { TestAccount } from '../api/client';
+import { completeTotpChallenge } from './mfa';
+
+/**
+ * Outcome of authenticating a test account, with where it failed.
+ */
+export interface AuthResult {
+  success: boolean;
+  account?: string;                  // Test account name
+  role?: string;
+  authType?: TestAccount['auth_type'];
+  stage?: 'config' | 'login_page' | 'credentials' | 'mfa' | 'verify';  // Step that failed
+  loginUrl?: string;
+  postLoginUrl?: string;
+  error?: string;
+}
+
+const DEFAULT_EMAIL_SELECTOR =
+  'input[type="email"], input[name="email"], input[id="email"], [placeholder*="email" i]';
+const DEFAULT_PASSWORD_SELECTOR =
+  'input[type="password"], input[name="password"], input[id="password"]';
+const DEFAULT_SUBMIT_SELECTOR =
+  'button[type="submit"], input[type="submit"], button:has-text("Log in"), button:has-text("Sign in")';
+
+/**
+ * Login page URL for an account, resolved against the base URL.
+ */
+export function loginUrlFor(account: TestAccount, baseUrl: string): string {
+  const loginUrl = account.login_url || '/login';
+  return loginUrl.startsWith('http') ? loginUrl : new URL(loginUrl, baseUrl).href;
+}
+
+/**
+ * Whether a URL is the account's login page (or looks like a login page).
+ * A flow landing here unexpectedly means the session expired.
+ */
+export function isLoginPage(url: string, account: TestAccount, baseUrl: string): boolean {
+  try {
+    const path = new URL(url).pathname.replace(/\/$/, '');
+    const loginPath = new URL(loginUrlFor(account, baseUrl)).pathname.replace(/\/$/, '');
+    return path === loginPath || path.includes('/login') || path.includes('/signin');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Log in through the account's login form, including a TOTP prompt if configured.
+ * Success is confirmed by the success indicator, or else by leaving the login page;
+ * on failure, any error banner on the page is reported.
+ */
+export async function loginWithForm(page: Page, account: TestAccount, baseUrl: string): Promise<AuthResult> {
+  const loginUrl = loginUrlFor(account, baseUrl);
+  const base = { account: account.name, role: account.role, authType: account.auth_type, loginUrl };
+  let stage: AuthResult['stage'] = 'login_page';
+
+  try {
+    core.info(`Authenticating at ${loginUrl}...`);
+    await page.goto(loginUrl, { waitUntil: 'networkidle', timeout: 15000 });
+
+    // Fill email and password - use configured selectors or try common patterns
+    stage = 'credentials';
+    await page.locator(account.email_selector || DEFAULT_EMAIL_SELECTOR).first().fill(account.email, { timeout: 5000 });
+    await page.locator(account.password_selector || DEFAULT_PASSWORD_SELECTOR).first().fill(account.password, { timeout: 5000 });
+
+    // Get current URL before clicking to detect navigation
+    const preLoginUrl = page.url();
+    await page.locator(account.submit_selector || DEFAULT_SUBMIT_SELECTOR).first().click({ timeout: 5000 });
+
+    // Wait for navigation/login to complete
+    await page.waitForLoadState('networkidle', { timeout: 10000 });
+
+    // Two-factor prompt, if the account has one
+    if (account.totp_secret) {
+      stage = 'mfa';
+      await completeTotpChallenge(page, account.totp_secret, account.totp_selector);
+    }
+
+    // Verify login succeeded if indicator is configured
+    stage = 'verify';
+    if (account.success_indicator) {
+      if (account.success_indicator.startsWith('/')) {
+        // URL pattern
+        await page.waitForURL(`**${account.success_indicator}*`, { timeout: 10000 });
+      } else {
+        // Selector
+        await page.locator(account.success_indicator).waitFor({ state: 'visible', timeout: 10000 });
+      }
+    } else {
+      // No indicator configured - wait for URL to change from login page
+      try {
+        await page.waitForURL(
+          (url) => url.href !== preLoginUrl && !isLoginPage(url.href, account, baseUrl),
+          { timeout: 10000 }
+        );
+      } catch {
+        // URL didn't change - login may have failed or app doesn't redirect
+        core.warning(`URL didn't change after login submit (still at ${page.url()})`);
+      }
+    }
+
+    // Get the URL where user landed after login (dashboard, home, etc.)
+    const postLoginUrl = page.url();
+
+    // If still on login page, authentication likely failed
+    if (!account.success_indicator && isLoginPage(postLoginUrl, account, baseUrl)) {
+      core.warning(`Still on login page after submit - authentication may have failed`);
+      const errorText = await readLoginError(page);
+      return {
+        ...base,
+        success: false,
+        stage,
+        error: errorText || 'Login failed - still on login page after submit. Check credentials.',
+      };
+    }
+
+    core.info(`Authentication successful, landed at: ${postLoginUrl}`);
+    return { ...base, success: true, postLoginUrl };
+
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    const errorText = await readLoginError(page);
+    return { ...base, success: false, stage, error: errorText ? `${errorText} (${msg})` : msg };
+  }
+}
+
+/**
+ * Text of a visible error banner on the login page, if any.
+ */
+async function readLoginError(page: Page): Promise<string | null> {
+  const errorEl = page.locator('[class*="error"], [class*="alert"], [role="alert"]').first();
+  try {
+    if (await errorEl.isVisible({ timeout: 1000 })) {
+      const text = (await errorEl.textContent())?.trim();
+      if (text) {
+        core.warning(`Login error message: ${text}`);
+        return text;
+      }
+    }
+  } catch {
+    // No error element found
+  }
+  return null;
+}
@@ -0,0 +1,65 @@
+import * as core from '@actions/core';
+import { Page } from 'playwright';
+import { parseTotpSecret, secondsRemaining, totp } from './totp';
+
+// One-time-code fields as login pages usually mark them
+const OTP_FIELD_SELECTORS = [
+  'input[autocomplete="one-time-code"]',
+  'input[name*="otp" i]',
+  'input[id*="otp" i]',
+  'input[name*="totp" i]',
+  'input[name*="mfa" i]',
+  'input[name*="2fa" i]',
+  'input[name*="code" i]:not([type="hidden"])',
+  'input[id*="code" i]:not([type="hidden"])',
+  'input[placeholder*="code" i]',
+].join(', ');
+
+// Don't submit a code that expires before the server checks it
+const MIN_SECONDS_REMAINING = 3;
+
+/**
+ * If the page shows a one-time-code prompt, fill it with a fresh TOTP code and submit.
+ * Returns false when no prompt appears within the timeout (the account has no MFA step).
+ */
+export async function completeTotpChallenge(
+  page: Page,
+  secret: string,
+  selector?: string,
+  timeout: number = 5000
+): Promise<boolean> {
+  const field = page.locator(selector || OTP_FIELD_SELECTORS).first();
+  try {
+    await field.waitFor({ state: 'visible', timeout });
+  } catch {
+    return false;
+  }
+
+  const { key, options } = parseTotpSecret(secret);
+  const period = options.period || 30;
+  const remaining = secondsRemaining(Date.now(), period);
+  if (remaining < MIN_SECONDS_REMAINING) {
+    await page.waitForTimeout(remaining * 1000);
+  }
+  const code = totp(key, Date.now(), options);
+
+  // Some prompts split the code into one box per digit
+  const digitBoxes = page.locator('input[maxlength="1"]:visible');
+  if (!selector && await digitBoxes.count() >= code.length) {
+    for (let i = 0; i < code.length; i++) {
+      await digitBoxes.nth(i).fill(code[i], { timeout });
+    }
+  } else {
+    await field.fill(code, { timeout });
+  }
+  core.info('  Entered one-time code');
+
+  // Many prompts submit on their own once the code is complete
+  try {
+    await field.press('Enter', { timeout: 1000 });
+  } catch {
+    // Field already gone - the prompt submitted itself
+  }
+  await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
+  return true;
+}
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import { BrowserContext, BrowserContextOptions } from 'playwright';
+import { TestAccount } from '../api/client';
+
+/**
+ * Authentication applied to a browser context up front, without a login form.
+ */
+export interface SessionAuth {
+  type: 'basic' | 'api_key' | 'oauth';
+  username?: string;          // basic
+  password?: string;          // basic
+  apiKey?: string;            // api_key
+  apiKeyHeader?: string;      // api_key: header to send the key in (default: Authorization)
+  apiKeyCookie?: string;      // api_key: set the key as this cookie instead of a header
+  storageStatePath?: string;  // oauth: Playwright storage state saved from a manual SSO login
+}
+
+/**
+ * Session auth for a test account, or null for form login accounts.
+ */
+export function sessionAuthFromAccount(account: TestAccount): SessionAuth | null {
+  switch (account.auth_type) {
+    case 'basic':
+      return { type: 'basic', username: account.email, password: account.password };
+    case 'api_key':
+      return {
+        type: 'api_key',
+        apiKey: account.api_key || account.password,
+        apiKeyHeader: account.api_key_header,
+        apiKeyCookie: account.api_key_cookie,
+      };
+    case 'oauth':
+      return { type: 'oauth', storageStatePath: account.storage_state_path };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check session auth is usable before any browser work. Returns an error message, or null.
+ */
+export function validateSessionAuth(auth: SessionAuth): string | null {
+  switch (auth.type) {
+    case 'basic':
+      return auth.username && auth.password ? null : 'Basic auth requires a username and password';
+    case 'api_key':
+      return auth.apiKey ? null : 'API key auth requires a key';
+    case 'oauth':
+      if (!auth.storageStatePath) return 'OAuth/SSO auth requires a storage state file';
+      return fs.existsSync(auth.storageStatePath) ? null : `Storage state file not found: ${auth.storageStatePath}`;
+  }
+}
+
+/**
+ * Context options for session auth. Basic credentials are only sent to the app's origin.
+ */
+export function sessionContextOptions(auth: SessionAuth, baseUrl: string): BrowserContextOptions {
+  if (validateSessionAuth(auth)) {
+    return {};
+  }
+
+  switch (auth.type) {
+    case 'basic':
+      return {
+        httpCredentials: {
+          username: auth.username!,
+          password: auth.password!,
+          origin: new URL(baseUrl).origin,
+        },
+      };
+    case 'oauth':
+      return { storageState: auth.storageStatePath };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Apply API key auth to a new context: as a cookie, or as a header added to
+ * requests to the app's origin only, so the key never reaches third parties.
+ */
+export async function applySessionAuth(context: BrowserContext, auth: SessionAuth, baseUrl: string): Promise<void> {
+  if (auth.type !== 'api_key' || validateSessionAuth(auth)) {
+    return;
+  }
+
+  const origin = new URL(baseUrl).origin;
+  if (auth.apiKeyCookie) {
+    await context.addCookies([{ name: auth.apiKeyCookie, value: auth.apiKey!, url: origin }]);
+    return;
+  }
+
+  const header = auth.apiKeyHeader || 'Authorization';
+  await context.route(url => url.origin === origin, route =>
+    route.fallback({ headers: { ...route.request().headers(), [header.toLowerCase()]: auth.apiKey! } })
+  );
+}
+
+/**
+ * Short description for logs, e.g. "API key (X-API-Key header)".
+ */
+export function describeSessionAuth(auth: SessionAuth): string {
+  switch (auth.type) {
+    case 'basic':
+      return 'HTTP basic auth';
+    case 'api_key':
+      return auth.apiKeyCookie
+        ? `API key (${auth.apiKeyCookie} cookie)`
+        : `API key (${auth.apiKeyHeader || 'Authorization'} header)`;
+    case 'oauth':
+      return `saved session (${auth.storageStatePath})`;
+  }
+}
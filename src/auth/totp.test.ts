@@ -0,0 +1,64 @@
+import { decodeBase32, parseTotpSecret, secondsRemaining, totp, TotpOptions } from './totp';
+
+// RFC 6238 appendix B: the seed is the ASCII string repeated to each hash's key length
+const SEEDS: Record<NonNullable<TotpOptions['algorithm']>, Buffer> = {
+  sha1: Buffer.from('12345678901234567890'),
+  sha256: Buffer.from('12345678901234567890123456789012'),
+  sha512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234'),
+};
+
+const RFC_6238_VECTORS: Array<[number, string, NonNullable<TotpOptions['algorithm']>]> = [
+  [59, '94287082', 'sha1'],
+  [59, '46119246', 'sha256'],
+  [59, '90693936', 'sha512'],
+  [1111111109, '07081804', 'sha1'],
+  [1111111109, '68084774', 'sha256'],
+  [1111111109, '25091201', 'sha512'],
+  [1111111111, '14050471', 'sha1'],
+  [1111111111, '67062674', 'sha256'],
+  [1111111111, '99943326', 'sha512'],
+  [1234567890, '89005924', 'sha1'],
+  [1234567890, '91819424', 'sha256'],
+  [1234567890, '93441116', 'sha512'],
+  [2000000000, '69279037', 'sha1'],
+  [2000000000, '90698825', 'sha256'],
+  [2000000000, '38618901', 'sha512'],
+  [20000000000, '65353130', 'sha1'],
+  [20000000000, '77737706', 'sha256'],
+  [20000000000, '47863826', 'sha512'],
+];
+
+describe('totp', () => {
+  it.each(RFC_6238_VECTORS)('matches RFC 6238 at T=%i (%s, %s)', (seconds, expected, algorithm) => {
+    expect(totp(SEEDS[algorithm], seconds * 1000, { digits: 8, algorithm })).toBe(expected);
+  });
+
+  it('defaults to 6 digits', () => {
+    expect(totp(SEEDS.sha1, 59 * 1000)).toBe('287082');
+  });
+});
+
+describe('parseTotpSecret', () => {
+  it('decodes a base32 secret as shown by authenticator setup screens', () => {
+    expect(decodeBase32('gezd gnbv-gy3t qojq gezd gnbv gy3t qojq==')).toEqual(SEEDS.sha1);
+  });
+
+  it('reads the secret and parameters from an otpauth URI', () => {
+    const { key, options } = parseTotpSecret(
+      'otpauth://totp/App:qa@example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&digits=8&period=60&algorithm=SHA256'
+    );
+    expect(key).toEqual(SEEDS.sha1);
+    expect(options).toEqual({ digits: 8, period: 60, algorithm: 'sha256' });
+  });
+
+  it('rejects characters outside the base32 alphabet', () => {
+    expect(() => decodeBase32('GEZD1')).toThrow('Invalid base32 character');
+  });
+});
+
+describe('secondsRemaining', () => {
+  it('counts down to the end of the current period', () => {
+    expect(secondsRemaining(59 * 1000)).toBe(1);
+    expect(secondsRemaining(60 * 1000)).toBe(30);
+  });
+});
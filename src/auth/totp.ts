@@ -0,0 +1,96 @@
+import { createHmac } from 'crypto';
+
+/**
+ * TOTP parameters (RFC 6238). Authenticator apps use the defaults.
+ */
+export interface TotpOptions {
+  digits?: number;     // default: 6
+  period?: number;     // Seconds per code (default: 30)
+  algorithm?: 'sha1' | 'sha256' | 'sha512';  // default: sha1
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Decode an RFC 4648 base32 secret, as shown by authenticator setup screens.
+ * Spaces, dashes, padding and lowercase are tolerated.
+ */
+export function decodeBase32(input: string): Buffer {
+  const clean = input.replace(/[\s=-]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character in TOTP secret: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Parse a secret that is either plain base32 or an otpauth:// URI
+ * (which can also carry digits, period and algorithm).
+ */
+export function parseTotpSecret(secret: string): { key: Buffer; options: TotpOptions } {
+  if (!secret.startsWith('otpauth://')) {
+    return { key: decodeBase32(secret), options: {} };
+  }
+
+  const uri = new URL(secret);
+  const base32 = uri.searchParams.get('secret');
+  if (!base32) {
+    throw new Error('otpauth URI has no secret parameter');
+  }
+  const algorithm = uri.searchParams.get('algorithm')?.toLowerCase();
+  return {
+    key: decodeBase32(base32),
+    options: {
+      digits: uri.searchParams.has('digits') ? parseInt(uri.searchParams.get('digits')!, 10) : undefined,
+      period: uri.searchParams.has('period') ? parseInt(uri.searchParams.get('period')!, 10) : undefined,
+      algorithm: algorithm === 'sha256' || algorithm === 'sha512' ? algorithm : undefined,
+    },
+  };
+}
+
+/**
+ * HOTP (RFC 4226) for a counter value.
+ */
+export function hotp(key: Buffer, counter: number, digits: number = 6, algorithm: TotpOptions['algorithm'] = 'sha1'): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac(algorithm, key).update(message).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * TOTP (RFC 6238) code for a key at a point in time.
+ */
+export function totp(key: Buffer, timeMs: number = Date.now(), options: TotpOptions = {}): string {
+  const period = options.period || 30;
+  return hotp(key, Math.floor(timeMs / 1000 / period), options.digits || 6, options.algorithm || 'sha1');
+}
+
+/**
+ * Seconds until the current code for this period length expires.
+ */
+export function secondsRemaining(timeMs: number = Date.now(), period: number = 30): number {
+  return period - (Math.floor(timeMs / 1000) % period);
+}
@@ -0,0 +1,14 @@
+import { validateEmulation } from './emulation';
+
+describe('validateEmulation', () => {
+  it('accepts permissions the browser supports', () => {
+    expect(validateEmulation({ permissions: ['clipboard-read', 'geolocation'] }, 'chromium')).toBeNull();
+    expect(validateEmulation({ permissions: ['notifications'] }, 'firefox')).toBeNull();
+  });
+
+  it('rejects permissions the browser would refuse', () => {
+    expect(validateEmulation({ permissions: ['clipboard-read'] }, 'firefox')).toMatch(/^Invalid permission for firefox: clipboard-read\./);
+    expect(validateEmulation({ permissions: ['camera'] }, 'webkit')).toMatch(/^Invalid permission for webkit: camera\./);
+    expect(validateEmulation({ permissions: ['teleport'] })).toMatch(/^Invalid permission for chromium: teleport\./);
+  });
+});
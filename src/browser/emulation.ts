@@ -0,0 +1,130 @@
+import * as core from '@actions/core';
+import { BrowserContext, BrowserContextOptions, CDPSession, Page } from 'playwright';
+import { EmulationSettings, NetworkProfile } from '../api/client';
+import { BrowserName } from './index';
+
+/**
+ * Chrome DevTools throttling presets (bytes per second, latency in ms).
+ */
+const NETWORK_PROFILES: Record<string, { download: number; upload: number; latency: number }> = {
+  'slow-3g': { download: 50000, upload: 50000, latency: 2000 },
+  'fast-3g': { download: 180000, upload: 84375, latency: 562.5 },
+  '4g': { download: 1012500, upload: 168750, latency: 150 },
+};
+
+// One DevTools session per throttled page: throttling ends when its session detaches
+const throttleSessions = new WeakMap<Page, CDPSession>();
+
+// Permissions each engine can grant; Playwright rejects any other name when the context is created
+const SUPPORTED_PERMISSIONS: Record<BrowserName, string[]> = {
+  chromium: [
+    'geolocation', 'midi', 'midi-sysex', 'notifications', 'camera', 'microphone', 'background-sync',
+    'ambient-light-sensor', 'accelerometer', 'gyroscope', 'magnetometer', 'clipboard-read', 'clipboard-write',
+    'payment-handler', 'storage-access', 'local-fonts', 'local-network-access',
+  ],
+  firefox: ['geolocation', 'notifications', 'persistent-storage', 'push'],
+  webkit: ['geolocation', 'notifications', 'clipboard-read'],
+};
+
+export const NETWORK_PROFILE_NAMES = ['offline', ...Object.keys(NETWORK_PROFILES), 'online'];
+
+export function isNetworkProfile(name: string): name is NetworkProfile {
+  return NETWORK_PROFILE_NAMES.includes(name);
+}
+
+/**
+ * Describe what's wrong with emulation settings for a browser, or return null if they're usable.
+ */
+export function validateEmulation(settings: EmulationSettings, browserName: BrowserName = 'chromium'): string | null {
+  if (settings.locale) {
+    try {
+      Intl.getCanonicalLocales(settings.locale);
+    } catch {
+      return `Invalid locale: ${settings.locale}. Use a BCP 47 tag such as en-US or de-DE.`;
+    }
+  }
+  if (settings.timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: settings.timezone });
+    } catch {
+      return `Invalid timezone: ${settings.timezone}. Use an IANA zone such as Europe/Berlin.`;
+    }
+  }
+  if (settings.geolocation) {
+    const { latitude, longitude } = settings.geolocation;
+    if (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) {
+      return `Invalid geolocation: ${latitude},${longitude}. Latitude must be within ±90 and longitude within ±180.`;
+    }
+  }
+  const unsupported = (settings.permissions || []).filter(p => !SUPPORTED_PERMISSIONS[browserName].includes(p));
+  if (unsupported.length > 0) {
+    return `Invalid permission for ${browserName}: ${unsupported.join(', ')}. Use ${SUPPORTED_PERMISSIONS[browserName].join(', ')}.`;
+  }
+  if (settings.network && !isNetworkProfile(settings.network)) {
+    return `Invalid network profile: ${settings.network}. Use ${NETWORK_PROFILE_NAMES.join(', ')}.`;
+  }
+  return null;
+}
+
+/**
+ * Parse a "latitude,longitude" input.
+ */
+export function parseGeolocation(input: string): EmulationSettings['geolocation'] | null {
+  const match = input.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  return match ? { latitude: parseFloat(match[1]), longitude: parseFloat(match[2]) } : null;
+}
+
+/**
+ * Browser context options for emulation settings.
+ */
+export function emulationContextOptions(settings: EmulationSettings): BrowserContextOptions {
+  const options: BrowserContextOptions = {};
+  const permissions = [...(settings.permissions || [])];
+
+  if (settings.locale) options.locale = settings.locale;
+  if (settings.timezone) options.timezoneId = settings.timezone;
+  if (settings.geolocation) {
+    options.geolocation = settings.geolocation;
+    if (!permissions.includes('geolocation')) permissions.push('geolocation');
+  }
+  if (permissions.length > 0) options.permissions = permissions;
+  if (settings.color_scheme) options.colorScheme = settings.color_scheme;
+  if (settings.reduced_motion !== undefined) options.reducedMotion = settings.reduced_motion ? 'reduce' : 'no-preference';
+  if (settings.network === 'offline') options.offline = true;
+
+  return options;
+}
+
+/**
+ * Switch a page's network to a throttling profile, offline, or back online.
+ * Offline applies to the whole context; throttling uses the Chrome DevTools
+ * protocol, so other engines log a warning and run unthrottled.
+ */
+export async function applyNetworkProfile(
+  page: Page,
+  profile: NetworkProfile,
+  browserName: BrowserName
+): Promise<void> {
+  const context: BrowserContext = page.context();
+  await context.setOffline(profile === 'offline');
+  if (profile === 'offline') return;
+
+  const throttle = NETWORK_PROFILES[profile];
+  if (browserName !== 'chromium') {
+    if (throttle) core.warning(`Network throttling (${profile}) is only supported on chromium; ${browserName} runs unthrottled`);
+    return;
+  }
+
+  let session = throttleSessions.get(page);
+  if (!session) {
+    session = await context.newCDPSession(page);
+    await session.send('Network.enable');
+    throttleSessions.set(page, session);
+  }
+  await session.send('Network.emulateNetworkConditions', {
+    offline: false,
+    downloadThroughput: throttle ? throttle.download : -1,
+    uploadThroughput: throttle ? throttle.upload : -1,
+    latency: throttle ? throttle.latency : 0,
+  });
+}
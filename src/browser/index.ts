@@ -0,0 +1,146 @@
+import { chromium, devices, firefox, webkit, Browser, BrowserContextOptions, BrowserType } from 'playwright';
+
+/**
+ * Browser engines ScoutAI can run flows and crawls on.
+ */
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+const BROWSER_TYPES: Record<BrowserName, BrowserType> = {
+  chromium,
+  firefox,
+  webkit,
+};
+
+export const SUPPORTED_BROWSERS = Object.keys(BROWSER_TYPES) as BrowserName[];
+
+export function isBrowserName(name: string): name is BrowserName {
+  return (SUPPORTED_BROWSERS as string[]).includes(name);
+}
+
+/**
+ * Parse a comma-separated list of browser names (e.g. "chromium,webkit").
+ * Throws on unknown names so typos don't silently drop coverage.
+ */
+export function parseBrowsers(input: string): BrowserName[] {
+  const names = input.split(',').map(b => b.trim().toLowerCase()).filter(Boolean);
+  const unknown = names.filter(n => !isBrowserName(n));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown browser(s): ${unknown.join(', ')}. Supported: ${SUPPORTED_BROWSERS.join(', ')}`);
+  }
+  const browsers = [...new Set(names)] as BrowserName[];
+  return browsers.length > 0 ? browsers : ['chromium'];
+}
+
+/**
+ * Launch a headless browser of the given engine.
+ */
+export async function launchBrowser(name: BrowserName = 'chromium'): Promise<Browser> {
+  return BROWSER_TYPES[name].launch({ headless: true });
+}
+
+/**
+ * Context settings for a viewport: size plus optional device emulation.
+ */
+export interface ViewportProfile {
+  name: string;
+  viewport: { width: number; height: number };
+  userAgent?: string;
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+}
+
+// Mobile user agent for more realistic mobile testing
+const MOBILE_USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) ' +
+  'AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1';
+
+const TABLET_USER_AGENT =
+  'Mozilla/5.0 (iPad; CPU OS 16_0 like Mac OS X) ' +
+  'AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1';
+
+// Built-in viewport presets
+const VIEWPORT_PRESETS: Record<string, Omit<ViewportProfile, 'name'>> = {
+  desktop: { viewport: { width: 1280, height: 720 } },
+  tablet: {  // iPad
+    viewport: { width: 768, height: 1024 },
+    userAgent: TABLET_USER_AGENT,
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+  },
+  mobile: {  // iPhone SE
+    viewport: { width: 375, height: 667 },
+    userAgent: MOBILE_USER_AGENT,
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+  },
+};
+
+/**
+ * Resolve a viewport spec to a profile. Accepts a preset name (desktop, tablet, mobile),
+ * a custom size ("1440x900") or a Playwright device name ("Pixel 7", "iPad Mini").
+ * Returns null if the spec isn't recognised.
+ */
+export function resolveViewport(spec: string): ViewportProfile | null {
+  const preset = VIEWPORT_PRESETS[spec.toLowerCase()];
+  if (preset) {
+    return { name: spec.toLowerCase(), ...preset };
+  }
+
+  const size = spec.match(/^(\d+)x(\d+)$/i);
+  if (size) {
+    return { name: spec.toLowerCase(), viewport: { width: parseInt(size[1], 10), height: parseInt(size[2], 10) } };
+  }
+
+  // Device names are case-sensitive in Playwright; match case-insensitively
+  const deviceName = Object.keys(devices).find(d => d.toLowerCase() === spec.toLowerCase());
+  if (deviceName) {
+    const device = devices[deviceName];
+    return {
+      name: deviceName,
+      viewport: device.viewport,
+      userAgent: device.userAgent,
+      deviceScaleFactor: device.deviceScaleFactor,
+      isMobile: device.isMobile,
+      hasTouch: device.hasTouch,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a comma-separated list of viewport specs. Throws on unknown specs.
+ * Returns canonical names (e.g. "pixel 7" -> "Pixel 7").
+ */
+export function parseViewports(input: string): string[] {
+  const specs = input.split(',').map(v => v.trim()).filter(Boolean);
+  const unknown = specs.filter(v => !resolveViewport(v));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown viewport(s): ${unknown.join(', ')}. ` +
+      `Use desktop, tablet, mobile, WIDTHxHEIGHT or a Playwright device name (e.g. "Pixel 7").`
+    );
+  }
+  const names = [...new Set(specs.map(v => resolveViewport(v)!.name))];
+  return names.length > 0 ? names : ['desktop'];
+}
+
+/**
+ * Browser context options for a viewport on a given engine.
+ * Falls back to desktop for unknown specs.
+ */
+export function viewportContextOptions(spec: string, browserName: BrowserName = 'chromium'): BrowserContextOptions {
+  const profile = resolveViewport(spec) || { name: 'desktop', ...VIEWPORT_PRESETS.desktop };
+  const options: BrowserContextOptions = { viewport: profile.viewport };
+
+  if (profile.userAgent) options.userAgent = profile.userAgent;
+  if (profile.deviceScaleFactor) options.deviceScaleFactor = profile.deviceScaleFactor;
+  if (profile.hasTouch) options.hasTouch = true;
+  // Firefox doesn't support isMobile emulation
+  if (profile.isMobile && browserName !== 'firefox') options.isMobile = true;
+
+  return options;
+}
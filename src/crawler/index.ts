@@ -1,26 +1,18 @@
 import * as core from '@actions/core';
-import { chromium, BrowserContext, Page } from 'playwright';
+import { Frame, Page } from 'playwright';
+import { BrowserName, launchBrowser, viewportContextOptions } from '../browser';
+import { auditPage } from '../accessibility/audit';
+import { AccessibilityViolation, TestAccount } from '../api/client';
+import { AuthManager, AuthResult } from '../auth';
 
 /**
- * Credentials for authenticating during crawl.
+ * Browser, auth and audit settings for a crawl.
  */
-export interface CrawlCredentials {
-  email: string;
-  password: string;
-  loginUrl: string;
-  emailSelector?: string;
-  passwordSelector?: string;
-  submitSelector?: string;
-  successIndicator?: string;
-}
-
-/**
- * Result of authentication attempt.
- */
-export interface AuthResult {
-  success: boolean;
-  postLoginUrl?: string;
-  error?: string;
+export interface CrawlOptions {
+  browserName?: BrowserName;     // Browser engine to crawl with (default: chromium)
+  viewport?: string;             // Viewport preset, WIDTHxHEIGHT or device name (default: desktop)
+  auditAccessibility?: boolean;  // Run WCAG checks on every crawled page
+  auth?: AuthManager;            // Shared run session; a new one is created if not provided
 }
 
 /**
@@ -39,12 +31,26 @@ export interface PageContext {
   forms: FormInfo[];
   buttons: ButtonInfo[];
   inputs: InputInfo[];
+  frames: FrameInfo[];
+  accessibility?: AccessibilityViolation[];
 }
 
 export interface LinkInfo {
   href: string;
   text: string;
   selector: string;
+  opens_new_tab?: boolean;  // target="_blank": clicking opens a popup/new tab
+}
+
+/**
+ * An iframe (payment fields, embedded widgets) and the controls inside it.
+ * Steps target them with frame: selector.
+ */
+export interface FrameInfo {
+  selector: string;
+  src: string;
+  buttons: ButtonInfo[];
+  inputs: InputInfo[];
 }
 
 export interface FormInfo {
@@ -68,108 +74,6 @@ export interface InputInfo {
   label?: string;
 }
 
-/**
- * Authenticate using the provided credentials.
- * Returns AuthResult with success status, post-login URL, and any error message.
- */
-async function authenticate(
-  context: BrowserContext,
-  baseUrl: string,
-  credentials: CrawlCredentials
-): Promise<AuthResult> {
-  const page = await context.newPage();
-
-  try {
-    // Navigate to login page
-    let loginUrl = credentials.loginUrl;
-    if (!loginUrl.startsWith('http')) {
-      loginUrl = new URL(loginUrl, baseUrl).href;
-    }
-
-    core.info(`Authenticating at ${loginUrl}...`);
-    await page.goto(loginUrl, { waitUntil: 'networkidle', timeout: 15000 });
-
-    // Fill email - use configured selector or try common patterns
-    const emailSelector = credentials.emailSelector ||
-      'input[type="email"], input[name="email"], input[id="email"], [placeholder*="email" i]';
-    await page.locator(emailSelector).first().fill(credentials.email, { timeout: 5000 });
-
-    // Fill password
-    const passwordSelector = credentials.passwordSelector ||
-      'input[type="password"], input[name="password"], input[id="password"]';
-    await page.locator(passwordSelector).first().fill(credentials.password, { timeout: 5000 });
-
-    // Submit form
-    const submitSelector = credentials.submitSelector ||
-      'button[type="submit"], input[type="submit"], button:has-text("Log in"), button:has-text("Sign in")';
-
-    // Get current URL before clicking to detect navigation
-    const preLoginUrl = page.url();
-
-    await page.locator(submitSelector).first().click({ timeout: 5000 });
-
-    // Wait for navigation/login to complete
-    await page.waitForLoadState('networkidle', { timeout: 10000 });
-
-    // Verify login succeeded if indicator is configured
-    if (credentials.successIndicator) {
-      if (credentials.successIndicator.startsWith('/')) {
-        // URL pattern
-        await page.waitForURL(`**${credentials.successIndicator}*`, { timeout: 10000 });
-      } else {
-        // Selector
-        await page.locator(credentials.successIndicator).waitFor({ state: 'visible', timeout: 10000 });
-      }
-    } else {
-      // No indicator configured - wait for URL to change from login page
-      try {
-        await page.waitForURL(
-          (url) => url.href !== preLoginUrl && !url.href.includes('/login') && !url.href.includes('/signin'),
-          { timeout: 10000 }
-        );
-      } catch {
-        // URL didn't change - login may have failed or app doesn't redirect
-        core.warning(`URL didn't change after login submit (still at ${page.url()})`);
-      }
-    }
-
-    // Get the URL where user landed after login (dashboard, home, etc.)
-    const postLoginUrl = page.url();
-
-    // If still on login page, authentication likely failed
-    if (postLoginUrl.includes('/login') || postLoginUrl.includes('/signin')) {
-      core.warning(`Still on login page after submit - authentication may have failed`);
-      // Check for error messages
-      const errorSelectors = '[class*="error"], [class*="alert"], [role="alert"]';
-      const errorEl = page.locator(errorSelectors).first();
-      let errorText: string | null = null;
-      try {
-        if (await errorEl.isVisible({ timeout: 1000 })) {
-          errorText = await errorEl.textContent();
-          core.warning(`Login error message: ${errorText}`);
-        }
-      } catch {
-        // No error element found
-      }
-
-      return {
-        success: false,
-        error: errorText || 'Login failed - still on login page after submit. Check credentials.',
-      };
-    }
-
-    core.info(`Authentication successful, landed at: ${postLoginUrl}`);
-    return { success: true, postLoginUrl };
-
-  } catch (error) {
-    const msg = error instanceof Error ? error.message : String(error);
-    core.warning(`Authentication failed: ${msg}`);
-    return { success: false, error: msg };
-  } finally {
-    await page.close();
-  }
-}
-
 /**
  * Crawl a single page using an existing browser context.
  * Internal function used by crawlSite.
@@ -222,7 +126,9 @@ async function crawlPageWithContext(page: Page, url: string): Promise<PageContex
         selector = `a >> nth=${i}`;
       }
 
-      return { href, text, selector };
+      return a.getAttribute('target') === '_blank'
+        ? { href, text, selector, opens_new_tab: true }
+        : { href, text, selector };
     });
   });
 
@@ -365,7 +271,10 @@ async function crawlPageWithContext(page: Page, url: string): Promise<PageContex
       .filter(i => i.type !== 'hidden' && i.selector);
   });
 
-  core.info(`Found: ${links.length} links, ${forms.length} forms, ${buttons.length} buttons, ${inputs.length} inputs`);
+  const frames = await extractFrames(page);
+
+  const framesLabel = frames.length > 0 ? `, ${frames.length} iframes` : '';
+  core.info(`Found: ${links.length} links, ${forms.length} forms, ${buttons.length} buttons, ${inputs.length} inputs${framesLabel}`);
 
   return {
     url,
@@ -375,22 +284,118 @@ async function crawlPageWithContext(page: Page, url: string): Promise<PageContex
     forms,
     buttons,
     inputs,
+    frames,
   };
 }
 
+/**
+ * Describe the page's top-level iframes and the inputs and buttons inside them.
+ * Cross-origin frames (e.g. Stripe card fields) are readable here even though
+ * the page's own scripts can't see into them.
+ */
+async function extractFrames(page: Page): Promise<FrameInfo[]> {
+  const frames: FrameInfo[] = [];
+  const childFrames = page.mainFrame().childFrames().slice(0, 10);
+
+  for (let i = 0; i < childFrames.length; i++) {
+    const frame = childFrames[i];
+    try {
+      const element = await frame.frameElement();
+      const attrs = await element.evaluate(node => {
+        const el = node as HTMLIFrameElement;
+        return {
+          testId: el.getAttribute('data-testid') || '',
+          id: el.id,
+          name: el.getAttribute('name') || '',
+          title: el.getAttribute('title') || '',
+          src: el.getAttribute('src') || '',
+        };
+      });
+
+      let selector = '';
+      if (attrs.testId) {
+        selector = `[data-testid="${attrs.testId}"]`;
+      } else if (attrs.id && !attrs.id.includes(':')) {
+        selector = `#${attrs.id}`;
+      } else if (attrs.title) {
+        // Titles are stable where generated names (e.g. __privateStripeFrame123) are not
+        selector = `iframe[title="${attrs.title}"]`;
+      } else if (attrs.name) {
+        selector = `iframe[name="${attrs.name}"]`;
+      } else if (attrs.src && !attrs.src.startsWith('about:')) {
+        selector = `iframe[src="${attrs.src}"]`;
+      } else {
+        selector = `iframe >> nth=${i}`;
+      }
+
+      const controls = await extractFrameControls(frame);
+      if (controls.inputs.length === 0 && controls.buttons.length === 0) continue;
+      frames.push({ selector, src: frame.url(), ...controls });
+    } catch {
+      // Frame detached while crawling
+    }
+  }
+
+  return frames;
+}
+
+async function extractFrameControls(frame: Frame): Promise<{ inputs: InputInfo[]; buttons: ButtonInfo[] }> {
+  return frame.evaluate(() => {
+    const inputs = Array.from(document.querySelectorAll('input, textarea, select'))
+      .slice(0, 10)
+      .map((el) => {
+        const name = el.getAttribute('name') || '';
+        const type = el.getAttribute('type') || 'text';
+        const placeholder = el.getAttribute('placeholder') || '';
+        const ariaLabel = el.getAttribute('aria-label') || '';
+
+        let selector = '';
+        if (el.getAttribute('data-testid')) {
+          selector = `[data-testid="${el.getAttribute('data-testid')}"]`;
+        } else if (name) {
+          selector = `[name="${name}"]`;
+        } else if (placeholder) {
+          selector = `[placeholder="${placeholder}"]`;
+        } else if (ariaLabel) {
+          selector = `[aria-label="${ariaLabel}"]`;
+        }
+
+        return { name, type, placeholder, selector, label: ariaLabel || undefined };
+      })
+      .filter(i => i.type !== 'hidden' && i.selector);
+
+    const buttons = Array.from(document.querySelectorAll('button, input[type="submit"], [role="button"]'))
+      .slice(0, 10)
+      .map((btn) => {
+        const text = (btn.textContent?.trim() || btn.getAttribute('value') || '').replace(/\s+/g, ' ').substring(0, 50);
+        const type = btn.getAttribute('type') || 'button';
+        const selector = btn.getAttribute('data-testid')
+          ? `[data-testid="${btn.getAttribute('data-testid')}"]`
+          : btn.id ? `#${btn.id}` : `button:has-text("${text.substring(0, 30)}")`;
+        return { text, type, selector };
+      })
+      .filter(b => b.text);
+
+    return { inputs, buttons };
+  });
+}
+
 /**
  * Crawl a page and extract structured information about interactive elements.
  * This gives Claude real context about what's on the page.
  */
-export async function crawlPage(url: string): Promise<PageContext> {
-  const browser = await chromium.launch({ headless: true });
-  const context = await browser.newContext({
-    viewport: { width: 1280, height: 720 },
-  });
+export async function crawlPage(url: string, options: CrawlOptions = {}): Promise<PageContext> {
+  const browserName = options.browserName || 'chromium';
+  const browser = await launchBrowser(browserName);
+  const context = await browser.newContext(viewportContextOptions(options.viewport || 'desktop', browserName));
   const page = await context.newPage();
 
   try {
-    return await crawlPageWithContext(page, url);
+    const pageContext = await crawlPageWithContext(page, url);
+    if (options.auditAccessibility) {
+      pageContext.accessibility = await auditPage(page);
+    }
+    return pageContext;
   } finally {
     await browser.close();
   }
@@ -401,36 +406,42 @@ export async function crawlPage(url: string): Promise<PageContext> {
  * @param baseUrl - The base URL to start crawling from
  * @param maxPages - Maximum number of pages to crawl
  * @param priorityPaths - URL paths to crawl first (e.g., ['/dashboard/multi-store'])
- * @param credentials - Optional credentials for authenticated crawling
+ * @param account - Optional test account for authenticated crawling
+ * @param options - Browser, viewport, auth session and accessibility audit settings
  */
 export async function crawlSite(
   baseUrl: string,
   maxPages: number = 5,
   priorityPaths: string[] = [],
-  credentials?: CrawlCredentials
+  account: TestAccount | null = null,
+  options: CrawlOptions = {}
 ): Promise<CrawlResult> {
   const visited = new Set<string>();
   const pages: PageContext[] = [];
   let authResult: AuthResult | undefined;
 
+  // Log in (or reuse this run's session) before opening the crawl context
+  const browserName = options.browserName || 'chromium';
+  const auth = options.auth || new AuthManager(baseUrl, browserName);
+  if (account) {
+    core.info('Authenticating before crawl...');
+    authResult = await auth.login(account);
+    if (authResult.success) {
+      core.info(`Authentication successful. Starting authenticated crawl.`);
+    } else {
+      core.warning(`Authentication failed: ${authResult.error}. Continuing with anonymous crawl.`);
+    }
+  }
+
   // Launch browser and create context (shared across all pages for session persistence)
-  const browser = await chromium.launch({ headless: true });
+  const browser = await launchBrowser(browserName);
   const context = await browser.newContext({
-    viewport: { width: 1280, height: 720 },
+    ...viewportContextOptions(options.viewport || 'desktop', browserName),
+    ...auth.contextOptions(account),
   });
 
   try {
-    // Authenticate if credentials provided
-    if (credentials) {
-      core.info('Authenticating before crawl...');
-      authResult = await authenticate(context, baseUrl, credentials);
-
-      if (!authResult.success) {
-        core.warning(`Authentication failed: ${authResult.error}. Continuing with anonymous crawl.`);
-      } else {
-        core.info(`Authentication successful. Starting authenticated crawl.`);
-      }
-    }
+    await auth.prepareContext(context, account);
 
     // Build initial queue: priority paths first, then base URL
     const toVisit: string[] = [];
@@ -474,6 +485,10 @@ export async function crawlSite(
         const page = await context.newPage();
         try {
           const pageContext = await crawlPageWithContext(page, normalizedUrl);
+          if (options.auditAccessibility) {
+            pageContext.accessibility = await auditPage(page);
+            core.info(`  Accessibility: ${pageContext.accessibility.length} violation(s)`);
+          }
           pages.push(pageContext);
 
           // Add internal links to visit queue
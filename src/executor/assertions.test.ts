@@ -0,0 +1,23 @@
+import { Locator, Page } from 'playwright';
+import { AssertionFailedError, assertCondition } from './assertions';
+
+const page = { waitForTimeout: async () => {} } as unknown as Page;
+const threeItems = { count: async () => 3 } as unknown as Locator;
+
+describe('count assertions', () => {
+  it('passes when the element count matches', async () => {
+    await expect(assertCondition(page, threeItems, { type: 'count', expected: 3 }, 0)).resolves.toMatchObject({ passed: true });
+    await expect(assertCondition(page, threeItems, { type: 'count', expected: '3' }, 0)).resolves.toMatchObject({ passed: true });
+  });
+
+  it('fails with the actual count when it differs', async () => {
+    await expect(assertCondition(page, threeItems, { type: 'count', expected: 2 }, 0)).rejects.toBeInstanceOf(AssertionFailedError);
+  });
+
+  it('rejects a missing or non-numeric expected count', async () => {
+    for (const expected of [undefined, '', 'three', 1.5, -1]) {
+      await expect(assertCondition(page, threeItems, { type: 'count', expected }, 0))
+        .rejects.toThrow('Count assertion requires a whole number as expected');
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { Locator, Page } from 'playwright';
+import { StepAssertion } from '../api/client';
+import { POLL_INTERVAL_MS } from './matching';
+
+/**
+ * Outcome of evaluating an assertion against the page.
+ */
+export interface AssertionOutcome {
+  passed: boolean;
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Thrown when an assertion step does not hold.
+ * Carries expected/actual so the executor can record them in the StepResult.
+ */
+export class AssertionFailedError extends Error {
+  expected: string;
+  actual: string;
+
+  constructor(assertion: StepAssertion, outcome: AssertionOutcome) {
+    super(`Expected ${describeAssertion(assertion)} ${outcome.expected}, got ${outcome.actual}`);
+    this.name = 'AssertionFailedError';
+    this.expected = outcome.expected;
+    this.actual = outcome.actual;
+  }
+}
+
+const OPERATOR_VERBS = {
+  equals: 'to equal',
+  contains: 'to contain',
+  matches: 'to match',
+};
+
+function describeAssertion(assertion: StepAssertion): string {
+  switch (assertion.type) {
+    case 'visible':
+    case 'hidden':
+    case 'enabled':
+    case 'disabled':
+      return 'element to be';
+    case 'count':
+      return 'count to equal';
+    case 'attribute':
+      return `attribute "${assertion.attribute}" ${OPERATOR_VERBS[assertion.operator || 'equals']}`;
+    default:
+      return `${assertion.type} ${OPERATOR_VERBS[assertion.operator || 'equals']}`;
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function quote(value: string | null): string {
+  return value === null ? '(none)' : JSON.stringify(value);
+}
+
+/**
+ * Compare a string value using the assertion's operator (equals by default).
+ */
+function compare(actual: string | null, assertion: StepAssertion): boolean {
+  if (actual === null) return false;
+  const expected = String(assertion.expected ?? '');
+
+  switch (assertion.operator || 'equals') {
+    case 'contains':
+      return actual.includes(expected);
+    case 'matches':
+      return new RegExp(expected).test(actual);
+    case 'equals':
+    default:
+      return actual === expected;
+  }
+}
+
+/**
+ * Read the current value for an assertion and compare it once.
+ */
+async function evaluateOnce(
+  page: Page,
+  locator: Locator | null,
+  assertion: StepAssertion
+): Promise<AssertionOutcome> {
+  const expected = String(assertion.expected ?? '');
+
+  if (assertion.type === 'url') {
+    // Relative expectations ("/orders/123") compare against path + query + hash
+    const url = new URL(page.url());
+    const actual = expected.startsWith('/') && assertion.operator !== 'matches'
+      ? `${url.pathname}${url.search}${url.hash}`
+      : url.href;
+    return { passed: compare(actual, assertion), expected: quote(expected), actual: quote(actual) };
+  }
+
+  if (!locator) {
+    throw new Error(`Assertion '${assertion.type}' requires a selector`);
+  }
+
+  switch (assertion.type) {
+    case 'visible': {
+      const visible = await locator.first().isVisible();
+      return { passed: visible, expected: 'visible', actual: visible ? 'visible' : 'not visible' };
+    }
+
+    case 'hidden': {
+      const visible = await locator.first().isVisible();
+      return { passed: !visible, expected: 'hidden', actual: visible ? 'visible' : 'hidden' };
+    }
+
+    case 'enabled':
+    case 'disabled': {
+      if (await locator.count() === 0) {
+        return { passed: false, expected: assertion.type, actual: 'element not found' };
+      }
+      const enabled = await locator.first().isEnabled();
+      const actual = enabled ? 'enabled' : 'disabled';
+      return { passed: actual === assertion.type, expected: assertion.type, actual };
+    }
+
+    case 'count': {
+      const expectedCount = Number(assertion.expected);
+      if (assertion.expected === undefined || assertion.expected === '' || !Number.isInteger(expectedCount) || expectedCount < 0) {
+        throw new Error(`Count assertion requires a whole number as expected, got ${JSON.stringify(assertion.expected)}`);
+      }
+      const count = await locator.count();
+      return {
+        passed: count === expectedCount,
+        expected: String(assertion.expected),
+        actual: String(count),
+      };
+    }
+
+    case 'text': {
+      if (await locator.count() === 0) {
+        return { passed: false, expected: quote(expected), actual: 'element not found' };
+      }
+      const actual = normalizeWhitespace(await locator.first().innerText());
+      return { passed: compare(actual, assertion), expected: quote(expected), actual: quote(actual) };
+    }
+
+    case 'value': {
+      if (await locator.count() === 0) {
+        return { passed: false, expected: quote(expected), actual: 'element not found' };
+      }
+      const actual = await locator.first().inputValue();
+      return { passed: compare(actual, assertion), expected: quote(expected), actual: quote(actual) };
+    }
+
+    case 'attribute': {
+      if (!assertion.attribute) {
+        throw new Error('Attribute assertion requires an attribute name');
+      }
+      if (await locator.count() === 0) {
+        return { passed: false, expected: quote(expected), actual: 'element not found' };
+      }
+      const actual = await locator.first().getAttribute(assertion.attribute);
+      return { passed: compare(actual, assertion), expected: quote(expected), actual: quote(actual) };
+    }
+
+    default:
+      throw new Error(`Unknown assertion type: ${assertion.type}`);
+  }
+}
+
+/**
+ * Evaluate an assertion, retrying until it holds or the timeout elapses.
+ * Throws AssertionFailedError with the last observed value on timeout.
+ */
+export async function assertCondition(
+  page: Page,
+  locator: Locator | null,
+  assertion: StepAssertion,
+  timeout: number
+): Promise<AssertionOutcome> {
+  const deadline = Date.now() + timeout;
+  let outcome = await evaluateOnce(page, locator, assertion);
+
+  while (!outcome.passed && Date.now() < deadline) {
+    await page.waitForTimeout(POLL_INTERVAL_MS);
+    outcome = await evaluateOnce(page, locator, assertion);
+  }
+
+  if (!outcome.passed) {
+    throw new AssertionFailedError(assertion, outcome);
+  }
+  return outcome;
+}
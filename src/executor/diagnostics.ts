@@ -0,0 +1,61 @@
+import { Page } from 'playwright';
+import { FailedRequest, FlowDiagnostics } from '../api/client';
+
+// Cap each list so a noisy page can't bloat the results payload
+const MAX_ENTRIES = 20;
+
+function pushCapped<T>(list: T[], item: T): void {
+  if (list.length < MAX_ENTRIES) {
+    list.push(item);
+  }
+}
+
+/**
+ * Start collecting console errors, uncaught exceptions and failed network
+ * requests from a page and any popups it opens. The returned object is
+ * filled in as the flow runs.
+ */
+export function collectDiagnostics(page: Page): FlowDiagnostics {
+  const diagnostics: FlowDiagnostics = {
+    console_errors: [],
+    page_errors: [],
+    failed_requests: [],
+  };
+
+  const watch = (target: Page) => {
+    target.on('console', (msg) => {
+      if (msg.type() === 'error') {
+        pushCapped(diagnostics.console_errors, msg.text().substring(0, 500));
+      }
+    });
+
+    target.on('pageerror', (error) => {
+      pushCapped(diagnostics.page_errors, error.message.substring(0, 500));
+    });
+
+    target.on('requestfailed', (request) => {
+      const failure: FailedRequest = {
+        url: request.url(),
+        method: request.method(),
+        failure: request.failure()?.errorText || 'unknown error',
+      };
+      pushCapped(diagnostics.failed_requests, failure);
+    });
+
+    target.on('response', (response) => {
+      if (response.status() >= 400) {
+        pushCapped(diagnostics.failed_requests, {
+          url: response.url(),
+          method: response.request().method(),
+          status: response.status(),
+        });
+      }
+    });
+  };
+
+  watch(page);
+  page.context().on('page', watch);
+
+  return diagnostics;
+}
+
@@ -0,0 +1,38 @@
+import * as core from '@actions/core';
+import { BrowserContext } from 'playwright';
+import { DialogPolicy } from '../api/client';
+import { matchesText } from './matching';
+
+/**
+ * Answer every alert/confirm/prompt/beforeunload dialog in the context (popups
+ * included) according to the flow's policy, so a dialog never blocks a step.
+ * Returns the dialog messages, filled in as the flow runs.
+ */
+export function handleDialogs(context: BrowserContext, policy: DialogPolicy = {}): string[] {
+  const messages: string[] = [];
+
+  context.on('dialog', async (dialog) => {
+    const message = dialog.message();
+    messages.push(message);
+    core.info(`    💬 ${dialog.type()} dialog: ${message}`);
+    try {
+      if (policy.action === 'dismiss') {
+        await dialog.dismiss();
+      } else {
+        await dialog.accept(dialog.type() === 'prompt' ? policy.prompt_text : undefined);
+      }
+    } catch {
+      // Page closed before the dialog was answered
+    }
+  });
+
+  return messages;
+}
+
+/**
+ * First dialog message that doesn't match the policy's expected message, if any.
+ */
+export function findUnexpectedDialog(messages: string[], policy: DialogPolicy = {}): string | undefined {
+  if (!policy.expected_message) return undefined;
+  return messages.find(m => !matchesText(m, policy.expected_message!));
+}
@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext, Download, Page } from 'playwright';
+import { DownloadExpectation, DownloadInfo } from '../api/client';
+import { POLL_INTERVAL_MS, regexLiteral } from './matching';
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.xls': 'application/vnd.ms-excel',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.xml': 'application/xml',
+  '.ics': 'text/calendar',
+  '.html': 'text/html',
+};
+
+// Leading bytes of binary formats
+const SIGNATURES: { bytes: number[]; mimeType: string }[] = [
+  { bytes: [0x25, 0x50, 0x44, 0x46], mimeType: 'application/pdf' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], mimeType: 'application/zip' },
+  { bytes: [0x89, 0x50, 0x4e, 0x47], mimeType: 'image/png' },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: 'image/jpeg' },
+  { bytes: [0xd0, 0xcf, 0x11, 0xe0], mimeType: 'application/x-ole-storage' },
+];
+
+// Office documents are stored in a zip (OOXML) or OLE (legacy) container
+const CONTAINERS: Record<string, string> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'application/zip',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'application/zip',
+  'application/vnd.ms-excel': 'application/x-ole-storage',
+};
+
+/**
+ * Downloads received in each context, and how many expect_download steps have used.
+ */
+const downloadQueues = new WeakMap<BrowserContext, { received: Download[]; used: number }>();
+
+function mimeTypeFor(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Type of a file from its leading bytes: a binary signature, HTML (e.g. an error
+ * page saved under the export's filename), or undefined for other text.
+ */
+function sniffMimeType(head: Buffer): string | undefined {
+  const signature = SIGNATURES.find(s => s.bytes.every((byte, i) => head[i] === byte));
+  if (signature) return signature.mimeType;
+  if (head.includes(0)) return 'application/octet-stream';
+
+  const text = head.toString('utf-8').trimStart().toLowerCase();
+  if (text.startsWith('<!doctype html') || text.startsWith('<html')) return 'text/html';
+  return undefined;
+}
+
+/**
+ * MIME type of a downloaded file, checked against its content. The extension picks
+ * between formats the content can't tell apart (a zip vs. an xlsx, CSV vs. plain
+ * text); content that doesn't fit the extension gives the type of the content.
+ */
+function detectMimeType(filename: string, filePath: string): string {
+  const byExtension = mimeTypeFor(filename);
+  const head = Buffer.alloc(512);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const length = fs.readSync(fd, head, 0, head.length, 0);
+    const sniffed = sniffMimeType(head.subarray(0, length));
+    const expected = CONTAINERS[byExtension] || byExtension;
+
+    if (sniffed) {
+      return sniffed === expected ? byExtension : sniffed;
+    }
+    // Text content under a binary format's extension
+    return SIGNATURES.some(s => s.mimeType === expected) ? 'text/plain' : byExtension;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Collect every download in the context (popups included), so an expect_download
+ * step without a selector can check a file an earlier step triggered.
+ */
+export function collectDownloads(context: BrowserContext): void {
+  const queue = { received: [] as Download[], used: 0 };
+  downloadQueues.set(context, queue);
+
+  const watch = (page: Page) => page.on('download', download => queue.received.push(download));
+  context.pages().forEach(watch);
+  context.on('page', watch);
+}
+
+/**
+ * Ignore downloads received so far, so the next one comes from what the step does next.
+ */
+export function skipDownloads(page: Page): void {
+  const queue = downloadQueues.get(page.context());
+  if (queue) queue.used = queue.received.length;
+}
+
+/**
+ * The oldest download no expect_download step has checked yet, waiting for one if needed.
+ */
+export async function nextDownload(page: Page, timeout: number): Promise<Download> {
+  const queue = downloadQueues.get(page.context());
+  if (!queue) {
+    return page.waitForEvent('download', { timeout });
+  }
+
+  const deadline = Date.now() + timeout;
+  while (queue.used >= queue.received.length) {
+    if (Date.now() >= deadline) {
+      throw new Error(`No download started within ${timeout}ms`);
+    }
+    await page.waitForTimeout(POLL_INTERVAL_MS);
+  }
+  return queue.received[queue.used++];
+}
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180 quoting; blank lines skipped).
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Value at a dot path such as 'items.0.id', or undefined if the path doesn't exist.
+ */
+function valueAtPath(data: unknown, jsonPath: string): unknown {
+  let current = data;
+  for (const key of jsonPath.split('.').filter(Boolean)) {
+    if (current === null || typeof current !== 'object' || !(key in current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Check a finished download against an expect_download step's expectations.
+ * Throws describing the first check that fails.
+ */
+export async function verifyDownload(download: Download, expectation: DownloadExpectation = {}): Promise<DownloadInfo> {
+  const failure = await download.failure();
+  if (failure) {
+    throw new Error(`Download failed: ${failure}`);
+  }
+
+  const filename = download.suggestedFilename();
+  const filePath = await download.path();
+  const info: DownloadInfo = {
+    filename,
+    size_bytes: fs.statSync(filePath).size,
+    mime_type: detectMimeType(filename, filePath),
+  };
+
+  if (expectation.filename) {
+    const regex = regexLiteral(expectation.filename);
+    const matches = regex ? regex.test(filename) : filename === expectation.filename;
+    if (!matches) {
+      throw new Error(`Expected download named ${expectation.filename}, got ${filename}`);
+    }
+  }
+  if (expectation.mime_type && info.mime_type !== expectation.mime_type) {
+    throw new Error(`Expected download of type ${expectation.mime_type}, got ${info.mime_type}`);
+  }
+  if (expectation.min_bytes !== undefined && info.size_bytes < expectation.min_bytes) {
+    throw new Error(`Expected download of at least ${expectation.min_bytes} bytes, got ${info.size_bytes}`);
+  }
+  if (expectation.max_bytes !== undefined && info.size_bytes > expectation.max_bytes) {
+    throw new Error(`Expected download of at most ${expectation.max_bytes} bytes, got ${info.size_bytes}`);
+  }
+
+  const checksContent = expectation.contains !== undefined || expectation.columns || expectation.min_rows !== undefined ||
+    expectation.json_path !== undefined || info.mime_type === 'text/csv';
+  if (!checksContent) {
+    return info;
+  }
+  const text = fs.readFileSync(filePath, 'utf-8');
+
+  if (expectation.contains !== undefined && !text.includes(expectation.contains)) {
+    throw new Error(`Expected download to contain "${expectation.contains}"`);
+  }
+
+  if (info.mime_type === 'text/csv' || expectation.columns || expectation.min_rows !== undefined) {
+    const [header = [], ...rows] = parseCsv(text);
+    info.rows = rows.length;
+    const missing = (expectation.columns || []).filter(c => !header.map(h => h.trim()).includes(c));
+    if (missing.length > 0) {
+      throw new Error(`Expected CSV columns ${missing.join(', ')}, got ${header.join(', ')}`);
+    }
+    if (expectation.min_rows !== undefined && rows.length < expectation.min_rows) {
+      throw new Error(`Expected at least ${expectation.min_rows} CSV rows, got ${rows.length}`);
+    }
+  }
+
+  if (expectation.json_path !== undefined) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(`Download ${filename} is not valid JSON`);
+    }
+    const value = valueAtPath(data, expectation.json_path);
+    if (value === undefined) {
+      throw new Error(`Expected JSON path ${expectation.json_path} in download`);
+    }
+    if (expectation.json_value !== undefined && value !== expectation.json_value) {
+      throw new Error(`Expected ${expectation.json_path} to equal ${JSON.stringify(expectation.json_value)}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  return info;
+}
@@ -0,0 +1,21 @@
+import * as path from 'path';
+import { resolveFixturePath } from './fixtures';
+
+describe('resolveFixturePath', () => {
+  const fixturesDir = '/repo/fixtures';
+
+  it('resolves paths inside the fixtures directory', () => {
+    expect(resolveFixturePath(fixturesDir, 'avatar.png')).toBe(path.resolve('/repo/fixtures/avatar.png'));
+    expect(resolveFixturePath(fixturesDir, 'mocks/../mocks/maps.json')).toBe(path.resolve('/repo/fixtures/mocks/maps.json'));
+  });
+
+  it('rejects paths that escape it', () => {
+    expect(() => resolveFixturePath(fixturesDir, '../.env')).toThrow('Invalid fixture path');
+    expect(() => resolveFixturePath(fixturesDir, 'mocks/../../secrets.json')).toThrow('Invalid fixture path');
+    expect(() => resolveFixturePath(fixturesDir, '/home/runner/.ssh/id_rsa')).toThrow('Invalid fixture path');
+  });
+
+  it('rejects the directory itself', () => {
+    expect(() => resolveFixturePath(fixturesDir, '.')).toThrow('Invalid fixture path');
+  });
+});
@@ -0,0 +1,16 @@
+import * as path from 'path';
+
+/**
+ * Resolve a fixture path from a plan against the fixtures directory. Paths that
+ * end up outside it (absolute paths, '../') are rejected, so a plan can't send
+ * arbitrary runner files (credentials, $GITHUB_ENV) to the site under test.
+ */
+export function resolveFixturePath(fixturesDir: string, file: string): string {
+  const root = path.resolve(fixturesDir);
+  const resolved = path.resolve(root, file);
+  const relative = path.relative(root, resolved);
+  if (relative === '' || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Invalid fixture path: ${file}. Use a path inside fixtures-dir (${fixturesDir})`);
+  }
+  return resolved;
+}
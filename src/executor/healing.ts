@@ -0,0 +1,148 @@
+import { PageContext } from '../crawler';
+
+/**
+ * Alternative selectors for one crawled element, most stable first.
+ */
+export interface HealingCandidate {
+  label: string;  // Human-readable description of the element (for logs)
+  selectors: string[];
+}
+
+interface CrawledElement {
+  kind: 'button' | 'link' | 'input';
+  selector: string;
+  text?: string;
+  name?: string;
+  placeholder?: string;
+  label?: string;
+  href?: string;
+}
+
+// Skip very short strings - "OK" or "Go" in a description matches too much
+const MIN_MATCH_LENGTH = 3;
+
+function normalize(text: string | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Pull the literal strings out of a selector: quoted text, attribute values, ids and classes.
+ * e.g. 'button:has-text("Sign in")' -> ['sign in'], '#email-input' -> ['email-input', 'email input']
+ */
+function selectorTerms(selector: string): string[] {
+  const terms = new Set<string>();
+  for (const match of selector.matchAll(/["']([^"']+)["']/g)) {
+    terms.add(normalize(match[1]));
+  }
+  for (const match of selector.matchAll(/[#.]([a-zA-Z][\w-]*)/g)) {
+    terms.add(normalize(match[1]));
+    terms.add(normalize(match[1].replace(/[-_]/g, ' ')));
+  }
+  return [...terms].filter(t => t.length >= MIN_MATCH_LENGTH);
+}
+
+function flattenElements(page: PageContext): CrawledElement[] {
+  const elements: CrawledElement[] = [];
+  for (const button of page.buttons) {
+    elements.push({ kind: 'button', selector: button.selector, text: button.text });
+  }
+  for (const link of page.links) {
+    elements.push({ kind: 'link', selector: link.selector, text: link.text, href: link.href });
+  }
+  const inputs = [...page.inputs, ...page.forms.flatMap(f => f.inputs)];
+  for (const input of inputs) {
+    elements.push({
+      kind: 'input',
+      selector: input.selector,
+      name: input.name,
+      placeholder: input.placeholder,
+      label: input.label,
+    });
+  }
+  return elements;
+}
+
+/**
+ * Does the element's text/name/placeholder/label relate to the failing selector or step description?
+ */
+function isRelated(element: CrawledElement, terms: string[], description: string): boolean {
+  const values = [element.text, element.name, element.placeholder, element.label]
+    .map(normalize)
+    .filter(v => v.length >= MIN_MATCH_LENGTH);
+
+  return values.some(value =>
+    terms.some(term => term === value || term.includes(value) || value.includes(term)) ||
+    description.includes(value)
+  );
+}
+
+/**
+ * Equivalent selectors for an element, derived from the attributes the crawler recorded.
+ */
+function alternativeSelectors(element: CrawledElement): string[] {
+  const selectors: string[] = [];
+  if (element.selector) selectors.push(element.selector);
+
+  if (element.kind === 'input') {
+    if (element.name) selectors.push(`[name="${element.name}"]`);
+    if (element.placeholder) selectors.push(`[placeholder="${element.placeholder}"]`);
+    if (element.label) selectors.push(`text="${element.label}" >> .. >> input`);
+  } else if (element.text) {
+    const text = element.text.substring(0, 30);
+    if (element.kind === 'button') {
+      selectors.push(`button:has-text("${text}")`);
+    } else {
+      if (element.href) selectors.push(`a[href="${element.href}"]`);
+      selectors.push(`a:has-text("${text}")`);
+    }
+    selectors.push(`text="${text}"`);
+  }
+
+  return [...new Set(selectors)];
+}
+
+/**
+ * Find crawled elements that could be what a failing selector was meant to target.
+ * Pages matching the current URL are preferred; otherwise every crawled page is searched.
+ */
+export function findHealingCandidates(
+  selector: string,
+  description: string,
+  pages: PageContext[],
+  currentUrl: string
+): HealingCandidate[] {
+  const currentPath = safePath(currentUrl);
+  const samePage = pages.filter(p => safePath(p.url) === currentPath);
+  const searchPages = samePage.length > 0 ? samePage : pages;
+
+  const terms = selectorTerms(selector);
+  const normalizedDescription = normalize(description);
+  const candidates: HealingCandidate[] = [];
+  const seen = new Set<string>();
+
+  for (const page of searchPages) {
+    for (const element of flattenElements(page)) {
+      if (!isRelated(element, terms, normalizedDescription)) continue;
+
+      const selectors = alternativeSelectors(element).filter(s => s !== selector);
+      const key = selectors.join('|');
+      if (selectors.length === 0 || seen.has(key)) continue;
+      seen.add(key);
+
+      candidates.push({
+        label: `${element.kind} "${element.text || element.label || element.name || element.placeholder}"`,
+        selectors,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+function safePath(url: string): string {
+  try {
+    return new URL(url).pathname.replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,18 @@
+// How often the executor re-checks a condition it's waiting for (assertions, pages, downloads)
+export const POLL_INTERVAL_MS = 250;
+
+/**
+ * The regular expression a "/pattern/flags" string stands for, or null for plain text.
+ */
+export function regexLiteral(text: string): RegExp | null {
+  const regex = text.match(/^\/(.+)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]) : null;
+}
+
+/**
+ * Whether text matches an expected value: a /regex/, or otherwise a substring.
+ */
+export function matchesText(text: string, expected: string): boolean {
+  const regex = regexLiteral(expected);
+  return regex ? regex.test(text) : text.includes(expected);
+}
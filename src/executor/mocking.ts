@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import { Page, Route } from 'playwright';
+import { RouteMock } from '../api/client';
+import { resolveFixturePath } from './fixtures';
+import { regexLiteral } from './matching';
+
+/**
+ * Turn a URL pattern into what page.route() and page.waitForResponse() expect.
+ * "/.../" is a regular expression; anything else is a glob such as "**\/api.stripe.com/**".
+ */
+export function urlPattern(url: string): string | RegExp {
+  return regexLiteral(url) ?? url;
+}
+
+/**
+ * Check a mock is well-formed and its fixture exists inside the fixtures directory,
+ * so a typo fails before the flow starts instead of as a confusing page error.
+ */
+function validateMock(mock: RouteMock, fixturesDir: string): void {
+  if (!mock.url) throw new Error('Mock requires a url pattern');
+  const action = mock.action || 'fulfill';
+  if (!['fulfill', 'abort', 'delay'].includes(action)) {
+    throw new Error(`Unknown mock action for ${mock.url}: ${action}`);
+  }
+  if (action === 'delay' && !mock.delay_ms) {
+    throw new Error(`Delay mock for ${mock.url} requires delay_ms`);
+  }
+  if (mock.fixture && !fs.existsSync(resolveFixturePath(fixturesDir, mock.fixture))) {
+    throw new Error(`Mock fixture not found for ${mock.url}: ${mock.fixture}`);
+  }
+}
+
+async function handleRoute(route: Route, mock: RouteMock, fixturesDir: string): Promise<void> {
+  if (mock.method && route.request().method() !== mock.method.toUpperCase()) {
+    await route.fallback();
+    return;
+  }
+
+  if (mock.delay_ms) {
+    await new Promise(resolve => setTimeout(resolve, mock.delay_ms));
+  }
+
+  switch (mock.action || 'fulfill') {
+    case 'abort':
+      await route.abort(mock.error_code || 'failed');
+      break;
+
+    case 'delay':
+      // Let the real request through, just later
+      await route.continue();
+      break;
+
+    default:
+      await route.fulfill({
+        status: mock.status || 200,
+        headers: mock.headers,
+        contentType: mock.content_type,
+        ...(mock.fixture
+          ? { path: resolveFixturePath(fixturesDir, mock.fixture) }
+          : mock.json !== undefined
+            ? { json: mock.json }
+            : { body: mock.body || '' }),
+      });
+  }
+}
+
+/**
+ * Route requests matching the mock's URL pattern to a canned response,
+ * abort them, or delay them. Mocks added later take precedence.
+ * Routes are added to the page's context so popups are mocked too.
+ */
+export async function installMock(page: Page, mock: RouteMock, fixturesDir: string): Promise<void> {
+  validateMock(mock, fixturesDir);
+  await page.context().route(urlPattern(mock.url), route => handleRoute(route, mock, fixturesDir));
+}
+
+/**
+ * Remove every mock registered for a URL pattern.
+ */
+export async function removeMock(page: Page, url: string): Promise<void> {
+  await page.context().unroute(urlPattern(url));
+}
+
+/**
+ * Short description for logs, e.g. "**\/maps.googleapis.com/** → 200 fixture maps.json".
+ */
+export function describeMock(mock: RouteMock): string {
+  const method = mock.method ? `${mock.method.toUpperCase()} ` : '';
+  const delay = mock.delay_ms ? ` after ${mock.delay_ms}ms` : '';
+  switch (mock.action || 'fulfill') {
+    case 'abort':
+      return `${method}${mock.url} → abort (${mock.error_code || 'failed'})${delay}`;
+    case 'delay':
+      return `${method}${mock.url} → delay${delay}`;
+    default: {
+      const source = mock.fixture ? ` fixture ${mock.fixture}` : mock.json !== undefined ? ' JSON' : '';
+      return `${method}${mock.url} → ${mock.status || 200}${source}${delay}`;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { Page } from 'playwright';
+import { matchesText, POLL_INTERVAL_MS } from './matching';
+
+/**
+ * Whether a page matches a switch_page target: 'main' (the flow's first page),
+ * 'last' (the newest page), a page index, a URL substring or a /regex/.
+ */
+function matchesTarget(page: Page, pages: Page[], target: string): boolean {
+  if (target === 'main') return page === pages[0];
+  if (target === 'last') return page === pages[pages.length - 1];
+  if (/^\d+$/.test(target)) return page === pages[parseInt(target, 10)];
+  return matchesText(page.url(), target);
+}
+
+/**
+ * Find the page a switch_page step names, waiting for it to open if needed.
+ */
+export async function selectPage(current: Page, target: string, timeout: number): Promise<Page> {
+  const context = current.context();
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    const pages = context.pages();
+    const match = pages.find(p => matchesTarget(p, pages, target));
+    if (match) {
+      await match.bringToFront();
+      return match;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`No open page matches "${target}" (open: ${pages.map(p => p.url()).join(', ')})`);
+    }
+    await current.waitForTimeout(POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Close the active page (e.g. a finished popup) and return to the newest page left open.
+ */
+export async function closeActivePage(page: Page): Promise<Page> {
+  const remaining = page.context().pages().filter(p => p !== page);
+  if (remaining.length === 0) {
+    throw new Error('Cannot close the only open page');
+  }
+  await page.close();
+  const previous = remaining[remaining.length - 1];
+  await previous.bringToFront();
+  return previous;
+}
+
+/**
+ * The page to run the next step on: the active page, or the newest page left open
+ * when it closed itself (e.g. a popup that closes after sign-in).
+ */
+export function currentPage(page: Page): Page {
+  if (!page.isClosed()) return page;
+  const pages = page.context().pages();
+  return pages.length > 0 ? pages[pages.length - 1] : page;
+}
@@ -1,109 +1,118 @@
 import * as core from '@actions/core';
-import { chromium, Browser, Page, BrowserContext } from 'playwright';
-import { FlowPlan, PlaywrightStep, ResultPayload, StepResult, TestAccount } from '../api/client';
+import { errors, Browser, Page, BrowserContext, BrowserContextOptions, FrameLocator } from 'playwright';
+import { BrowserName, launchBrowser, resolveViewport, viewportContextOptions } from '../browser';
+import {
+  applyNetworkProfile,
+  emulationContextOptions,
+  isNetworkProfile,
+  NETWORK_PROFILE_NAMES,
+  validateEmulation,
+} from '../browser/emulation';
+import { PageContext } from '../crawler';
+import {
+  AccessibilityViolation,
+  EmulationSettings,
+  FlowAttempt,
+  FlowPlan,
+  NavigationMetrics,
+  PlaywrightStep,
+  ResultPayload,
+  StepResult,
+  TestAccount,
+  VisualResult,
+  WaitUntil,
+} from '../api/client';
+import { AssertionFailedError, assertCondition } from './assertions';
+import { collectDiagnostics } from './diagnostics';
+import { resolveFixturePath } from './fixtures';
+import { findHealingCandidates } from './healing';
+import { describeMock, installMock, removeMock, urlPattern } from './mocking';
+import { extractValue, interpolateStep, redactDiagnostics, redactSecrets, redactStepResult } from './variables';
+import { closeActivePage, currentPage, selectPage } from './pages';
+import { findUnexpectedDialog, handleDialogs } from './dialogs';
+import { collectDownloads, nextDownload, skipDownloads, verifyDownload } from './downloads';
+import { captureFailureSnapshots } from './snapshots';
+import { AuthManager } from '../auth';
+import { baselineKey, compareWithBaseline, VisualOptions } from '../visual/baseline';
+import { auditPage } from '../accessibility/audit';
+import { checkBudget, findBudget, formatMetrics, measureNavigation, PerformanceBudgets } from '../performance/metrics';
 
-// Supported viewports for testing
-const VIEWPORTS = {
-  desktop: { width: 1280, height: 720 },
-  mobile: { width: 375, height: 667 },  // iPhone SE
-};
+/**
+ * Optional settings for flow execution.
+ */
+export interface ExecutionOptions {
+  fixturesDir?: string;  // Directory `upload` file paths resolve against (and must stay inside)
+  traceDir?: string;     // Record a Playwright trace per flow; kept here when the flow fails
+  failOnPageErrors?: boolean;  // Fail otherwise-passing flows that hit uncaught JS exceptions
+  concurrency?: number;  // Number of flows to run in parallel browser contexts (default: 1)
+  retries?: number;      // Rerun failed flows in a fresh context up to this many times (default: 0)
+  browsers?: BrowserName[];  // Browser engines to run every flow on (default: chromium)
+  crawledPages?: PageContext[];  // Site context used to heal selectors that time out
+  visual?: VisualOptions;        // Compare final screenshots against stored baselines
+  auditAccessibility?: boolean;  // Run WCAG checks on every page a flow visits
+  performanceBudgets?: PerformanceBudgets;  // Per-route limits checked after each navigation
+  stepTimeoutMs?: number;  // Default per-step timeout (default: 10000)
+  waitUntil?: WaitUntil;   // Default load state for navigate steps (default: networkidle)
+  emulation?: EmulationSettings;  // Locale, timezone, geolocation, etc. for every flow; flows can override
+  softAssertions?: boolean;  // Keep running a flow after a failed assert step (flows and steps can override)
+  stepScreenshots?: boolean;  // Screenshot the page after every step, for a filmstrip of the flow
+  runAllRoles?: boolean;   // Run flows that declare a role under every account role instead
+  defaultAccount?: TestAccount | null;  // Account flows without a role run as (default: the is_default account)
+  auth?: AuthManager;      // Run-wide login sessions, shared with the crawler
+}
+
+/**
+ * Timeout and wait strategy resolved for one step.
+ */
+interface StepSettings {
+  timeout: number;
+  waitUntil: WaitUntil;
+}
+
+const DEFAULT_STEP_TIMEOUT_MS = 10000;
 
-// Mobile user agent for more realistic mobile testing
-const MOBILE_USER_AGENT =
-  'Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) ' +
-  'AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1';
+// Steps with a frame resolve their selectors inside it
+type LocatorRoot = Page | FrameLocator;
 
 export class PlaywrightExecutor {
   private browser: Browser | null = null;
+  private browserName: BrowserName;
   private baseUrl: string;
   private screenshotDir: string;
-  private testAccount: TestAccount | null = null;
-  private storageState: string | null = null;
+  private options: ExecutionOptions;
+  private testAccounts: TestAccount[] = [];
+  private runDefaultAccount: TestAccount | null = null;
+  private auth: AuthManager;
 
-  constructor(baseUrl: string, screenshotDir: string = './screenshots') {
+  constructor(
+    baseUrl: string,
+    screenshotDir: string = './screenshots',
+    options: ExecutionOptions = {},
+    browserName: BrowserName = 'chromium'
+  ) {
     this.baseUrl = baseUrl;
+    this.browserName = browserName;
     this.screenshotDir = screenshotDir;
-  }
-
-  setTestAccount(account: TestAccount | null) {
-    this.testAccount = account;
-  }
-
-  async initialize(): Promise<void> {
-    core.info('Launching browser...');
-    this.browser = await chromium.launch({
-      headless: true,
-    });
-
-    // If we have a test account, authenticate and save the session
-    if (this.testAccount) {
-      await this.authenticate();
-    }
+    this.options = options;
+    this.auth = options.auth || new AuthManager(baseUrl, browserName);
   }
 
   /**
-   * Authenticate using the configured test account.
-   * Saves session state to reuse across flows.
+   * Accounts flows can run as. Flows without a role run as the run's default
+   * account (the one the crawl logs in as), whether or not it's in this list.
    */
-  private async authenticate(): Promise<void> {
-    if (!this.browser || !this.testAccount) return;
-
-    const account = this.testAccount;
-    core.info(`Authenticating as ${account.name} (${account.role})...`);
-
-    const context = await this.browser.newContext({
-      viewport: { width: 1280, height: 720 },
-    });
-    const page = await context.newPage();
-
-    try {
-      // Navigate to login page
-      const loginUrl = account.login_url.startsWith('http')
-        ? account.login_url
-        : `${this.baseUrl}${account.login_url}`;
-      await page.goto(loginUrl, { waitUntil: 'networkidle', timeout: 15000 });
-
-      // Fill email - use configured selector or try common patterns
-      const emailSelector = account.email_selector ||
-        'input[type="email"], input[name="email"], input[id="email"], [placeholder*="email" i]';
-      await page.locator(emailSelector).first().fill(account.email, { timeout: 5000 });
-
-      // Fill password
-      const passwordSelector = account.password_selector ||
-        'input[type="password"], input[name="password"], input[id="password"]';
-      await page.locator(passwordSelector).first().fill(account.password, { timeout: 5000 });
-
-      // Submit form
-      const submitSelector = account.submit_selector ||
-        'button[type="submit"], input[type="submit"], button:has-text("Log in"), button:has-text("Sign in")';
-      await page.locator(submitSelector).first().click({ timeout: 5000 });
-
-      // Wait for navigation/login to complete
-      await page.waitForLoadState('networkidle', { timeout: 10000 });
-
-      // Verify login succeeded if indicator is configured
-      if (account.success_indicator) {
-        if (account.success_indicator.startsWith('/')) {
-          // URL pattern
-          await page.waitForURL(`**${account.success_indicator}*`, { timeout: 10000 });
-        } else {
-          // Selector
-          await page.locator(account.success_indicator).waitFor({ state: 'visible', timeout: 10000 });
-        }
-      }
+  setTestAccounts(accounts: TestAccount[], runDefault: TestAccount | null = defaultAccount(accounts)) {
+    this.testAccounts = accounts;
+    this.runDefaultAccount = runDefault;
+  }
 
-      // Save storage state (cookies, localStorage) for reuse
-      this.storageState = './scoutai-auth-state.json';
-      await context.storageState({ path: this.storageState });
-      core.info(`  ✓ Authenticated successfully as ${account.name}`);
+  async initialize(): Promise<void> {
+    core.info(`Launching ${this.browserName}...`);
+    this.browser = await launchBrowser(this.browserName);
 
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      core.warning(`  ✗ Authentication failed: ${msg}`);
-      core.warning('  Continuing without authentication...');
-      this.storageState = null;
-    } finally {
-      await context.close();
+    // Log in once per account (reusing this run's sessions) and keep each separate
+    for (const account of this.testAccounts) {
+      await this.auth.login(account);
     }
   }
 
@@ -114,7 +123,12 @@ export class PlaywrightExecutor {
     }
   }
 
-  async executeFlow(flow: FlowPlan, viewport: string = 'desktop'): Promise<ResultPayload> {
+  async executeFlow(
+    flow: FlowPlan,
+    viewport: string = 'desktop',
+    attempt: number = 1,
+    account: TestAccount | null = this.runDefaultAccount
+  ): Promise<ResultPayload> {
     if (!this.browser) {
       throw new Error('Browser not initialized');
     }
@@ -125,69 +139,236 @@ export class PlaywrightExecutor {
     let flowStatus: 'passed' | 'failed' = 'passed';
     let errorMessage: string | undefined;
 
-    // Get viewport settings
-    const vp = VIEWPORTS[viewport as keyof typeof VIEWPORTS] || VIEWPORTS.desktop;
+    // Action-level emulation, with the flow's own settings taking precedence
+    const emulation: EmulationSettings = { ...this.options.emulation, ...flow.emulation };
+    const emulationError = validateEmulation(emulation, this.browserName);
 
-    // Use saved auth state if available
-    const contextOptions: any = {
-      viewport: vp,
-      ...(this.storageState ? { storageState: this.storageState } : {}),
+    // Viewport/device settings and emulation, plus the account's session if it's logged in
+    const contextOptions: BrowserContextOptions = {
+      ...viewportContextOptions(viewport, this.browserName),
+      ...(emulationError ? {} : emulationContextOptions(emulation)),
+      ...this.auth.contextOptions(account),
     };
 
-    // Add mobile-specific settings
-    if (viewport === 'mobile') {
-      contextOptions.userAgent = MOBILE_USER_AGENT;
-      contextOptions.isMobile = true;
-      contextOptions.hasTouch = true;
+    // Runs as a non-default account are labelled with its role so they don't collide
+    const role = account && account !== this.runDefaultAccount ? account.role : undefined;
+
+    // Artifact name prefix; retries get their own files so earlier attempts are kept
+    const browserPrefix = this.browserName !== 'chromium' ? `-${this.browserName}` : '';
+    const rolePrefix = role ? `-${role.replace(/[^a-zA-Z0-9_-]/g, '_')}` : '';
+    const basePrefix = `${flow.id}${browserPrefix}${rolePrefix}-${viewport.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+    const artifactPrefix = attempt > 1 ? `${basePrefix}-retry${attempt - 1}` : basePrefix;
+
+    // A context the browser refuses fails this flow, not the whole run
+    let opened: { context: BrowserContext; page: Page };
+    try {
+      opened = await this.openContext(contextOptions, account);
+    } catch (error) {
+      errorMessage = `Could not open browser context: ${error instanceof Error ? error.message : String(error)}`;
+      core.error(`Flow ${flow.name} failed: ${errorMessage}`);
+      return {
+        flow_name: flow.name,
+        status: 'failed',
+        duration_ms: Date.now() - startTime,
+        error_message: redactSecrets(errorMessage),
+        steps: flow.steps.map(step => ({ description: step.description, status: 'skipped' as const, duration_ms: 0 })),
+        screenshot_urls: [],
+        viewport: viewport,
+        browser: this.browserName,
+        role: account?.role,
+      };
     }
+    const context = opened.context;
+    let page = opened.page;
+    const diagnostics = collectDiagnostics(page);
+    const dialogMessages = handleDialogs(context, flow.dialogs);
+    collectDownloads(context);
+    let tracePath: string | undefined;
+    let visual: VisualResult | undefined;
+    const accessibility: AccessibilityViolation[] = [];
+    const auditedUrls = new Set<string>();
+    const navigationMetrics: NavigationMetrics[] = [];
+    const variables: Record<string, string> = {};
 
-    const context = await this.browser.newContext(contextOptions);
-    const page = await context.newPage();
+    // Record snapshots, network and console for the trace viewer
+    if (this.options.traceDir) {
+      await context.tracing.start({ screenshots: true, snapshots: true });
+    }
 
     const viewportLabel = viewport !== 'desktop' ? ` [${viewport}]` : '';
-    core.info(`Executing flow: ${flow.name}${viewportLabel}${this.storageState ? ' (authenticated)' : ''}`);
+    const browserLabel = this.browserName !== 'chromium' ? ` [${this.browserName}]` : '';
+    const attemptLabel = attempt > 1 ? ` (attempt ${attempt})` : '';
+    const authLabel = this.auth.isAuthenticated(account) ? ` (authenticated as ${account!.role})` : '';
+    core.info(`Executing flow: ${flow.name}${browserLabel}${viewportLabel}${attemptLabel}${authLabel}`);
 
     try {
-      for (let i = 0; i < flow.steps.length; i++) {
+      // Invalid emulation fails the flow; throttling covers its popups too
+      const network = emulation.network;
+      if (emulationError) {
+        flowStatus = 'failed';
+        errorMessage = `Invalid emulation settings: ${emulationError}`;
+        core.error(`  ✗ ${errorMessage}`);
+      } else if (network && network !== 'offline' && network !== 'online') {
+        await applyNetworkProfile(page, network, this.browserName);
+        context.on('page', popup => {
+          applyNetworkProfile(popup, network, this.browserName).catch(() => {});
+        });
+      }
+
+      // Route mocked third-party APIs before the first request goes out
+      try {
+        for (const mock of flow.mocks || []) {
+          await installMock(page, mock, this.options.fixturesDir || '.');
+          core.info(`  ↪ Mocking ${describeMock(mock)}`);
+        }
+      } catch (error) {
+        flowStatus = 'failed';
+        errorMessage = `Invalid network mock: ${error instanceof Error ? error.message : String(error)}`;
+        core.error(`  ✗ ${errorMessage}`);
+      }
+
+      // Failed soft assertions let the flow continue; any other failure stops it
+      // and the remaining steps are recorded as skipped
+      const softAssertions = flow.soft_assertions ?? this.options.softAssertions ?? false;
+      let stoppedAt = flowStatus === 'passed' ? -1 : 0;
+
+      for (let i = 0; stoppedAt === -1 && i < flow.steps.length; i++) {
         const step = flow.steps[i];
         const stepStart = Date.now();
+        const dialogStart = dialogMessages.length;
+        page = currentPage(page);
 
         try {
-          await this.executeStep(page, step);
+          const { step: resolvedStep, used } = interpolateStep(step, variables);
+          const settings = this.stepSettings(flow, resolvedStep, startTime);
+          let details: Partial<StepResult>;
+          ({ page, details } = await this.executeStepOnPage(page, resolvedStep, settings));
+          if (step.action === 'navigate' && account) {
+            details = await this.recoverExpiredSession(page, resolvedStep, settings, account) || details;
+          }
+          const unexpectedDialog = findUnexpectedDialog(dialogMessages.slice(dialogStart), flow.dialogs);
+          if (unexpectedDialog !== undefined) {
+            throw new Error(`Unexpected dialog "${unexpectedDialog}" (expected ${flow.dialogs!.expected_message})`);
+          }
+          Object.assign(variables, details.variables);
+          const stepVariables = { ...used, ...details.variables };
+          const duration = Date.now() - stepStart;
+
           stepResults.push({
             description: step.description,
             status: 'passed',
-            duration_ms: Date.now() - stepStart,
+            duration_ms: duration,
+            screenshot: await this.captureStepScreenshot(page, artifactPrefix, i),
+            ...details,
+            variables: Object.keys(stepVariables).length > 0 ? stepVariables : undefined,
+            dialogs: dialogMessages.length > dialogStart ? dialogMessages.slice(dialogStart) : undefined,
           });
           core.info(`  ✓ ${step.description}`);
+
+          if (step.action === 'navigate') {
+            const metrics = await this.measurePerformance(page);
+            if (metrics) navigationMetrics.push(metrics);
+          }
+
+          // Audit each page once, after the step that landed on it
+          if (this.options.auditAccessibility) {
+            const pageUrl = page.url().split(/[?#]/)[0];
+            if (pageUrl !== 'about:blank' && !auditedUrls.has(pageUrl)) {
+              auditedUrls.add(pageUrl);
+              accessibility.push(...await auditPage(page));
+            }
+          }
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : String(error);
+          const duration = Date.now() - stepStart;
+          const flowTimedOut = !!flow.timeout_ms && Date.now() - startTime >= flow.timeout_ms;
+          const soft = step.action === 'assert' && (step.soft ?? softAssertions) && !flowTimedOut;
+
+          // Take screenshot on failure (include viewport in filename), plus the DOM and accessibility tree
+          // Failing steps can close the page (a popup that closes itself), so a
+          // screenshot that can't be taken doesn't abort the run
+          page = currentPage(page);
+          const failurePath = `${this.screenshotDir}/${artifactPrefix}-failure-${i}`;
+          let failureScreenshot: string | undefined;
+          try {
+            await page.screenshot({ path: `${failurePath}.png`, fullPage: true });
+            failureScreenshot = `${failurePath}.png`;
+            screenshotUrls.push(failureScreenshot);
+          } catch (screenshotError) {
+            core.warning(`  Failure screenshot failed: ${screenshotError}`);
+          }
+          const snapshots = await captureFailureSnapshots(page, failurePath);
+
           stepResults.push({
             description: step.description,
             status: 'failed',
-            duration_ms: Date.now() - stepStart,
+            duration_ms: duration,
             error: errorMsg,
+            // The failure screenshot doubles as the step's filmstrip frame
+            screenshot: this.options.stepScreenshots ? failureScreenshot : undefined,
+            ...snapshots,
+            ...(error instanceof AssertionFailedError
+              ? { expected: error.expected, actual: error.actual }
+              : {}),
+            dialogs: dialogMessages.length > dialogStart ? dialogMessages.slice(dialogStart) : undefined,
           });
-          core.error(`  ✗ ${step.description}: ${errorMsg}`);
+          core.error(`  ✗ ${step.description}: ${errorMsg}${soft ? ' (soft assertion, continuing)' : ''}`);
           flowStatus = 'failed';
-          errorMessage = `Step failed: ${step.description} - ${errorMsg}`;
+          if (!errorMessage) {
+            errorMessage = `Step failed: ${step.description} - ${errorMsg}`;
+          }
 
-          // Take screenshot on failure (include viewport in filename)
-          const screenshotPath = `${this.screenshotDir}/${flow.id}-${viewport}-failure-${i}.png`;
-          await page.screenshot({ path: screenshotPath, fullPage: true });
-          screenshotUrls.push(screenshotPath);
+          if (!soft) {
+            stoppedAt = i + 1;
+          }
+        }
+      }
 
-          break; // Stop flow on first failure
+      if (stoppedAt !== -1) {
+        for (const step of flow.steps.slice(stoppedAt)) {
+          stepResults.push({ description: step.description, status: 'skipped', duration_ms: 0 });
         }
       }
+      const failedSteps = stepResults.filter(r => r.status === 'failed').length;
+      if (failedSteps > 1) {
+        errorMessage += ` (+${failedSteps - 1} more failed step${failedSteps > 2 ? 's' : ''})`;
+      }
+
+      // Uncaught exceptions fail the flow even when every step passed
+      if (flowStatus === 'passed' && this.options.failOnPageErrors && diagnostics.page_errors.length > 0) {
+        flowStatus = 'failed';
+        errorMessage = `Uncaught JavaScript error: ${diagnostics.page_errors[0]}`;
+        core.error(`  ✗ ${errorMessage}`);
+      }
+
+      // Budgets in 'fail' mode fail the flow; 'warn' budgets were already logged
+      const overBudget = navigationMetrics.find(m => m.budget_mode === 'fail' && m.budget_violations?.length);
+      if (flowStatus === 'passed' && overBudget) {
+        flowStatus = 'failed';
+        errorMessage = `Performance budget exceeded on ${new URL(overBudget.url).pathname}: ${overBudget.budget_violations!.join(', ')}`;
+        core.error(`  ✗ ${errorMessage}`);
+      }
 
       // Take final screenshot if passed
       if (flowStatus === 'passed') {
-        const screenshotPath = `${this.screenshotDir}/${flow.id}-${viewport}-final.png`;
-        await page.screenshot({ path: screenshotPath, fullPage: true });
-        screenshotUrls.push(screenshotPath);
+        page = currentPage(page);
+        const screenshotPath = `${this.screenshotDir}/${artifactPrefix}-final.png`;
+        const mask = (this.options.visual?.maskSelectors || []).map(selector => page.locator(selector));
+        try {
+          await page.screenshot({ path: screenshotPath, fullPage: true, mask });
+          screenshotUrls.push(screenshotPath);
+
+          if (this.options.visual) {
+            visual = this.compareVisual(screenshotPath, role ? `${flow.name} ${role}` : flow.name, viewport);
+          }
+        } catch (error) {
+          core.warning(`  Final screenshot failed: ${error}`);
+        }
       }
     } finally {
+      if (this.options.traceDir) {
+        tracePath = await this.stopTracing(context, artifactPrefix, flowStatus === 'failed');
+      }
       await context.close();
     }
 
@@ -195,15 +376,318 @@ export class PlaywrightExecutor {
       flow_name: flow.name,
       status: flowStatus,
       duration_ms: Date.now() - startTime,
-      error_message: errorMessage,
-      steps: stepResults,
+      error_message: redactSecrets(errorMessage),
+      steps: stepResults.map(redactStepResult),
       screenshot_urls: screenshotUrls,
       viewport: viewport,
+      browser: this.browserName,
+      role: account?.role,
+      trace_path: tracePath,
+      diagnostics: redactDiagnostics(diagnostics),
+      visual,
+      // Navigate URLs can carry secrets (e.g. token links)
+      accessibility: this.options.auditAccessibility
+        ? accessibility.map(v => ({ ...v, page_url: redactSecrets(v.page_url) }))
+        : undefined,
+      performance: navigationMetrics.length > 0
+        ? navigationMetrics.map(m => ({ ...m, url: redactSecrets(m.url) }))
+        : undefined,
+    };
+  }
+
+  /**
+   * A navigate step that bounced to the login page means the account's session
+   * expired mid-run: log in again, load the new session into this context and
+   * repeat the step. Returns null when the session is fine.
+   */
+  private async recoverExpiredSession(
+    page: Page,
+    step: PlaywrightStep,
+    settings: StepSettings,
+    account: TestAccount
+  ): Promise<Partial<StepResult> | null> {
+    const requestedUrl = new URL(step.value || '/', this.baseUrl).href;
+    if (!this.auth.isSessionExpired(page.url(), requestedUrl, account)) {
+      return null;
+    }
+
+    core.warning(`  Session for ${account.name} expired (redirected to ${page.url()}), logging in again...`);
+    const result = await this.auth.relogin(account);
+    if (!result.success) {
+      return null;
+    }
+    await this.auth.refreshContext(page.context(), account);
+    return this.executeStepWithWaits(page, step, settings);
+  }
+
+  /**
+   * Measure the page just navigated to and check it against its route's budget.
+   * Measurement errors are logged, not thrown.
+   */
+  private async measurePerformance(page: Page): Promise<NavigationMetrics | undefined> {
+    let metrics: NavigationMetrics;
+    try {
+      metrics = await measureNavigation(page);
+    } catch (error) {
+      core.warning(`  Performance measurement failed: ${error}`);
+      return undefined;
+    }
+    core.info(`    ⚡ ${formatMetrics(metrics)}`);
+
+    const budget = this.options.performanceBudgets && findBudget(metrics.url, this.options.performanceBudgets);
+    if (budget) {
+      const violations = checkBudget(metrics, budget);
+      if (violations.length > 0) {
+        metrics.budget_violations = violations;
+        metrics.budget_mode = budget.mode || 'fail';
+        core.warning(`  Performance budget exceeded on ${new URL(metrics.url).pathname}: ${violations.join(', ')}`);
+      }
+    }
+    return metrics;
+  }
+
+  /**
+   * Compare the final screenshot with the flow's baseline. Errors are logged, not thrown,
+   * so a broken baseline never fails the flow itself.
+   */
+  private compareVisual(screenshotPath: string, baselineName: string, viewport: string): VisualResult | undefined {
+    try {
+      const key = baselineKey(baselineName, this.browserName, viewport);
+      return compareWithBaseline(screenshotPath, key, this.options.visual!);
+    } catch (error) {
+      core.warning(`  Visual comparison failed: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Stop tracing for a flow context. The trace is only written to disk
+   * when it should be kept; otherwise it is discarded.
+   */
+  private async stopTracing(
+    context: BrowserContext,
+    artifactPrefix: string,
+    keep: boolean
+  ): Promise<string | undefined> {
+    try {
+      if (!keep) {
+        await context.tracing.stop();
+        return undefined;
+      }
+      const tracePath = `${this.options.traceDir}/${artifactPrefix}-trace.zip`;
+      await context.tracing.stop({ path: tracePath });
+      core.info(`  Trace saved: ${tracePath}`);
+      return tracePath;
+    } catch (error) {
+      core.warning(`  Failed to save trace: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve a step's timeout and load state: step settings override the flow's,
+   * which override the action inputs. The step timeout is capped by what's left
+   * of the flow's own timeout.
+   */
+  private stepSettings(flow: FlowPlan, step: PlaywrightStep, flowStart: number): StepSettings {
+    let timeout = step.timeout_ms ?? flow.step_timeout_ms ?? this.options.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+    if (flow.timeout_ms) {
+      const remaining = flow.timeout_ms - (Date.now() - flowStart);
+      if (remaining <= 0) {
+        throw new Error(`Flow timed out after ${flow.timeout_ms}ms`);
+      }
+      timeout = Math.min(timeout, remaining);
+    }
+    return {
+      timeout,
+      waitUntil: step.wait_until ?? flow.wait_until ?? this.options.waitUntil ?? 'networkidle',
     };
   }
 
-  private async executeStep(page: Page, step: PlaywrightStep): Promise<void> {
-    const timeout = 10000; // 10 second timeout per step
+  /**
+   * New browser context with the account's session, and its first page.
+   * The context is closed again if it can't be prepared.
+   */
+  private async openContext(
+    contextOptions: BrowserContextOptions,
+    account: TestAccount | null
+  ): Promise<{ context: BrowserContext; page: Page }> {
+    const context = await this.browser!.newContext(contextOptions);
+    try {
+      await this.auth.prepareContext(context, account);
+      return { context, page: await context.newPage() };
+    } catch (error) {
+      await context.close().catch(() => {});
+      throw error;
+    }
+  }
+
+  /**
+   * Filmstrip frame for a step, when step screenshots are enabled. Viewport-sized
+   * JPEGs keep the filmstrip small enough to upload; a frame that can't be taken
+   * is skipped rather than failing the step.
+   */
+  private async captureStepScreenshot(page: Page, artifactPrefix: string, index: number): Promise<string | undefined> {
+    if (!this.options.stepScreenshots) return undefined;
+    const screenshotPath = `${this.screenshotDir}/${artifactPrefix}-step-${index}.jpg`;
+    try {
+      await page.screenshot({ path: screenshotPath, type: 'jpeg', quality: 60 });
+      return screenshotPath;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Run a step on the active page and return the page later steps should use:
+   * a popup or new tab the step opened, or the page switch_page / close_page selected.
+   */
+  private async executeStepOnPage(
+    page: Page,
+    step: PlaywrightStep,
+    settings: StepSettings
+  ): Promise<{ page: Page; details: Partial<StepResult> }> {
+    const { timeout, waitUntil } = settings;
+
+    if (step.action === 'switch_page' || step.action === 'close_page') {
+      if (step.action === 'switch_page' && !step.value) throw new Error('Switch page requires a value');
+      const active = step.action === 'switch_page'
+        ? await selectPage(page, step.value!, timeout)
+        : await closeActivePage(page);
+      core.info(`    Active page: ${active.url()}`);
+      return { page: active, details: {} };
+    }
+
+    const popup = step.opens_popup ? page.context().waitForEvent('page', { timeout }) : null;
+    // Don't leave an unhandled rejection behind if the step itself fails first
+    popup?.catch(() => {});
+
+    const details = await this.executeStepWithWaits(page, step, settings);
+    if (!popup) {
+      return { page, details };
+    }
+
+    const opened = await popup;
+    await opened.waitForLoadState(waitUntil, { timeout });
+    core.info(`    Switched to new page: ${opened.url()}`);
+    return { page: opened, details };
+  }
+
+  /**
+   * Execute a step, then wait for whatever the step asks for: a response
+   * (listened for before the step runs), a visible element, or a load state.
+   */
+  private async executeStepWithWaits(
+    page: Page,
+    step: PlaywrightStep,
+    settings: StepSettings
+  ): Promise<Partial<StepResult>> {
+    const { timeout } = settings;
+    const response = step.wait_for_response
+      ? page.waitForResponse(urlPattern(step.wait_for_response), { timeout })
+      : null;
+    // Don't leave an unhandled rejection behind if the step itself fails first
+    response?.catch(() => {});
+
+    const details = await this.executeStepWithHealing(page, step, settings);
+
+    if (response) {
+      await response;
+    }
+    if (step.wait_for_selector) {
+      await this.smartLocator(this.locatorRoot(page, step), step.wait_for_selector).first().waitFor({ state: 'visible', timeout });
+    }
+    if (step.wait_until && step.action !== 'navigate') {
+      await page.waitForLoadState(step.wait_until, { timeout });
+    }
+    return details;
+  }
+
+  /**
+   * Execute a step; if its selector times out or an assertion finds no element for it,
+   * try equivalent selectors from the crawled page context and rerun the step with
+   * the one that matches.
+   */
+  private async executeStepWithHealing(
+    page: Page,
+    step: PlaywrightStep,
+    settings: StepSettings
+  ): Promise<Partial<StepResult>> {
+    try {
+      return await this.executeStep(page, step, settings);
+    } catch (error) {
+      if (!step.selector || !this.options.crawledPages?.length || !await this.isSelectorDrift(page, step, error)) {
+        throw error;
+      }
+
+      const healedSelector = await this.healSelector(page, step);
+      if (!healedSelector) {
+        throw error;
+      }
+
+      core.warning(`  🩹 Healed selector for "${step.description}": ${step.selector} → ${healedSelector}`);
+      const details = await this.executeStep(page, { ...step, selector: healedSelector }, settings);
+      return { ...details, healed_selector: healedSelector };
+    }
+  }
+
+  /**
+   * Whether a failure looks like the step's selector no longer matching: a timeout
+   * waiting for the element, or an assertion that found no element for it.
+   */
+  private async isSelectorDrift(page: Page, step: PlaywrightStep, error: unknown): Promise<boolean> {
+    if (error instanceof errors.TimeoutError) return true;
+    if (!(error instanceof AssertionFailedError)) return false;
+    if (error.actual === 'element not found') return true;
+    if (error.actual !== 'not visible') return false;
+
+    // A hidden element still matches; only heal when nothing does
+    try {
+      return await this.smartLocator(this.locatorRoot(page, step), step.selector!).count() === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Find a single crawled element that matches on the current page.
+   * Returns null when nothing matches, or when more than one element does.
+   */
+  private async healSelector(page: Page, step: PlaywrightStep): Promise<string | null> {
+    const candidates = findHealingCandidates(
+      step.selector!,
+      step.description,
+      this.options.crawledPages || [],
+      page.url()
+    );
+
+    const matches: { label: string; selector: string }[] = [];
+    for (const candidate of candidates) {
+      for (const selector of candidate.selectors) {
+        try {
+          if (await this.smartLocator(this.locatorRoot(page, step), selector).count() === 1) {
+            matches.push({ label: candidate.label, selector });
+            break;
+          }
+        } catch {
+          // Invalid selector - try the next one
+        }
+      }
+    }
+
+    if (matches.length > 1) {
+      core.info(`  Selector healing is ambiguous: ${matches.map(m => m.label).join(', ')}`);
+      return null;
+    }
+    return matches.length === 1 ? matches[0].selector : null;
+  }
+
+  /**
+   * Execute a single step. Returns extra details to record on the StepResult.
+   */
+  private async executeStep(page: Page, step: PlaywrightStep, settings: StepSettings): Promise<Partial<StepResult>> {
+    const { timeout, waitUntil } = settings;
+    const root = this.locatorRoot(page, step);
 
     switch (step.action) {
       case 'navigate':
@@ -211,26 +695,150 @@ export class PlaywrightExecutor {
         const url = step.value.toString().startsWith('http')
           ? step.value.toString()
           : `${this.baseUrl}${step.value}`;
-        await page.goto(url, { waitUntil: 'networkidle', timeout });
+        await page.goto(url, { waitUntil, timeout });
         break;
 
       case 'click':
         if (!step.selector) throw new Error('Click requires a selector');
-        await this.smartLocator(page, step.selector).click({ timeout });
+        await this.smartLocator(root, step.selector).click({ timeout });
         break;
 
       case 'fill':
         if (!step.selector) throw new Error('Fill requires a selector');
         if (step.value === undefined) throw new Error('Fill requires a value');
-        await this.smartLocator(page, step.selector).fill(step.value.toString(), { timeout });
+        await this.smartLocator(root, step.selector).fill(step.value.toString(), { timeout });
+        break;
+
+      case 'assert': {
+        const assertion = step.assertion || { type: 'visible' as const };
+        if (!step.selector && assertion.type !== 'url') throw new Error('Assert requires a selector');
+        const locator = step.selector ? this.smartLocator(root, step.selector) : null;
+        const outcome = await assertCondition(page, locator, assertion, timeout);
+        return { expected: outcome.expected, actual: outcome.actual };
+      }
+
+      case 'select': {
+        if (!step.selector) throw new Error('Select requires a selector');
+        const options = step.values && step.values.length > 0 ? step.values : step.value;
+        if (options === undefined) throw new Error('Select requires a value or values');
+        // String options match either the option value or its visible label
+        await this.smartLocator(root, step.selector).selectOption(options, { timeout });
+        break;
+      }
+
+      case 'check':
+        if (!step.selector) throw new Error('Check requires a selector');
+        await this.smartLocator(root, step.selector).check({ timeout });
+        break;
+
+      case 'uncheck':
+        if (!step.selector) throw new Error('Uncheck requires a selector');
+        await this.smartLocator(root, step.selector).uncheck({ timeout });
         break;
 
-      case 'assert':
-        if (!step.selector) throw new Error('Assert requires a selector');
-        await this.smartLocator(page, step.selector).waitFor({ state: 'visible', timeout });
+      case 'hover':
+        if (!step.selector) throw new Error('Hover requires a selector');
+        await this.smartLocator(root, step.selector).hover({ timeout });
+        break;
+
+      case 'press': {
+        const key = step.key || step.value;
+        if (!key) throw new Error('Press requires a key');
+        if (step.selector) {
+          await this.smartLocator(root, step.selector).press(key, { timeout });
+        } else {
+          await page.keyboard.press(key);
+        }
+        break;
+      }
+
+      case 'type':
+        // Types character by character, for inputs that react to individual key events
+        if (step.value === undefined) throw new Error('Type requires a value');
+        if (step.selector) {
+          await this.smartLocator(root, step.selector).pressSequentially(step.value.toString(), { timeout });
+        } else {
+          await page.keyboard.type(step.value.toString());
+        }
+        break;
+
+      case 'scroll':
+        if (step.selector) {
+          await this.smartLocator(root, step.selector).scrollIntoViewIfNeeded({ timeout });
+        } else if (step.value === 'top') {
+          await page.evaluate(() => window.scrollTo(0, 0));
+        } else if (step.value === 'bottom' || step.value === undefined) {
+          await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+        } else {
+          const deltaY = parseInt(step.value.toString(), 10);
+          if (isNaN(deltaY)) throw new Error(`Invalid scroll value: ${step.value}`);
+          await page.mouse.wheel(0, deltaY);
+        }
+        break;
+
+      case 'upload': {
+        if (!step.selector) throw new Error('Upload requires a selector');
+        const files = step.files && step.files.length > 0 ? step.files : (step.value ? [step.value] : []);
+        if (files.length === 0) throw new Error('Upload requires files');
+        const fixturesDir = this.options.fixturesDir || '.';
+        const filePaths = files.map(f => resolveFixturePath(fixturesDir, f));
+        await this.smartLocator(root, step.selector).setInputFiles(filePaths, { timeout });
+        break;
+      }
+
+      case 'drag':
+        if (!step.selector) throw new Error('Drag requires a selector');
+        if (!step.target_selector) throw new Error('Drag requires a target_selector');
+        await this.smartLocator(root, step.selector).dragTo(
+          this.smartLocator(root, step.target_selector),
+          { timeout }
+        );
+        break;
+
+      case 'extract': {
+        if (!step.variable) throw new Error('Extract requires a variable name');
+        const extraction = step.extract || { source: step.selector ? 'text' as const : 'url' as const };
+        const locator = step.selector ? this.smartLocator(root, step.selector).first() : null;
+        const extracted = await extractValue(page, locator, extraction, timeout);
+        core.info(`    {{${step.variable}}} = ${extracted}`);
+        return { variables: { [step.variable]: extracted } };
+      }
+
+      case 'expect_download': {
+        // With a selector, the download must come from the click; without one,
+        // the step checks a download an earlier step started
+        if (step.selector) {
+          skipDownloads(page);
+          await this.smartLocator(root, step.selector).click({ timeout });
+        }
+        const download = await verifyDownload(await nextDownload(page, timeout), step.download);
+        core.info(`    Downloaded ${download.filename} (${download.size_bytes} bytes, ${download.mime_type})`);
+        return { download };
+      }
+
+      case 'set_network':
+        if (!step.value || !isNetworkProfile(step.value)) {
+          throw new Error(`Set network requires a profile: ${NETWORK_PROFILE_NAMES.join(', ')}`);
+        }
+        await applyNetworkProfile(page, step.value, this.browserName);
+        break;
+
+      case 'mock':
+        if (!step.mock) throw new Error('Mock requires a mock definition');
+        await installMock(page, step.mock, this.options.fixturesDir || '.');
+        break;
+
+      case 'unmock':
+        if (!step.value) throw new Error('Unmock requires a URL pattern value');
+        await removeMock(page, step.value);
         break;
 
       case 'wait':
+        // With a selector, wait for the element instead of a fixed time
+        if (step.selector) {
+          await this.smartLocator(root, step.selector).first().waitFor({ state: 'visible', timeout });
+          break;
+        }
         const waitTime = typeof step.value === 'number' ? step.value : parseInt(step.value?.toString() || '1000', 10);
         await page.waitForTimeout(waitTime);
         break;
@@ -242,6 +850,20 @@ export class PlaywrightExecutor {
       default:
         throw new Error(`Unknown action: ${step.action}`);
     }
+
+    return {};
+  }
+
+  /**
+   * Where a step's selectors resolve: the page, or the iframe(s) the step names.
+   */
+  private locatorRoot(page: Page, step: PlaywrightStep): LocatorRoot {
+    const frames = typeof step.frame === 'string' ? [step.frame] : step.frame || [];
+    let root: LocatorRoot = page;
+    for (const frame of frames) {
+      root = root.frameLocator(frame);
+    }
+    return root;
   }
 
   /**
@@ -251,12 +873,16 @@ export class PlaywrightExecutor {
    * - button:has-text("...") -> use getByRole for better matching
    * - CSS selectors -> use locator()
    * - Automatically tries whitespace variants for emoji-containing selectors
+   * - Shadow-piercing syntax from other tools (host >>> inner, pierce/...) -> plain selectors,
+   *   since Playwright's CSS and text selectors already pierce open shadow roots
    */
-  private smartLocator(page: Page, selector: string) {
+  private smartLocator(root: LocatorRoot, selector: string) {
+    selector = selector.replace(/^pierce\//, '').replace(/\s*>>>\s*/g, ' >> ');
+
     // If it's a simple text selector like text="Login"
     if (selector.startsWith('text=')) {
       const text = selector.slice(5).replace(/^["']|["']$/g, '');
-      return page.getByText(text);
+      return root.getByText(text);
     }
 
     // If it contains comma-separated alternatives with mixed types
@@ -268,9 +894,9 @@ export class PlaywrightExecutor {
 
       if (hasTextSelector) {
         // Build a proper locator chain using .or()
-        let locator = this.singleLocator(page, parts[0]);
+        let locator = this.singleLocator(root, parts[0]);
         for (let i = 1; i < parts.length; i++) {
-          locator = locator.or(this.singleLocator(page, parts[i]));
+          locator = locator.or(this.singleLocator(root, parts[i]));
         }
         return locator;
       }
@@ -289,11 +915,11 @@ export class PlaywrightExecutor {
       if (hasEmoji) {
         // If original had emoji, don't use exact match since accessible name may include emoji
         // e.g., "🍔 Restaurant" - we search for "Restaurant" without exact
-        return page.getByRole('button', { name: textWithoutEmoji });
+        return root.getByRole('button', { name: textWithoutEmoji });
       } else {
         // No emoji - use exact: true to avoid substring matches
         // e.g., "Sign In" should not match "Sign in with email link instead"
-        return page.getByRole('button', { name: textWithoutEmoji, exact: true });
+        return root.getByRole('button', { name: textWithoutEmoji, exact: true });
       }
     }
 
@@ -302,15 +928,15 @@ export class PlaywrightExecutor {
 
     if (variants.length > 1) {
       // Build locator chain with .or() to try all variants
-      let locator = page.locator(variants[0]);
+      let locator = root.locator(variants[0]);
       for (let i = 1; i < variants.length; i++) {
-        locator = locator.or(page.locator(variants[i]));
+        locator = locator.or(root.locator(variants[i]));
       }
       return locator;
     }
 
     // Standard CSS/Playwright selector
-    return page.locator(selector);
+    return root.locator(selector);
   }
 
   /**
@@ -357,60 +983,202 @@ export class PlaywrightExecutor {
     return variants;
   }
 
-  private singleLocator(page: Page, selector: string) {
+  private singleLocator(root: LocatorRoot, selector: string) {
     selector = selector.trim();
     if (selector.startsWith('text=')) {
       const text = selector.slice(5).replace(/^["']|["']$/g, '');
-      return page.getByText(text);
+      return root.getByText(text);
     }
-    return page.locator(selector);
+    return root.locator(selector);
   }
 }
 
+/**
+ * Execute a flow, rerunning it in a fresh context while it fails and retries remain.
+ * A flow that fails and then passes is reported as 'flaky' with every attempt recorded.
+ */
+async function executeWithRetries(
+  executor: PlaywrightExecutor,
+  flow: FlowPlan,
+  viewport: string,
+  account: TestAccount | null,
+  retries: number,
+  deadline: number
+): Promise<ResultPayload> {
+  let result = await executor.executeFlow(flow, viewport, 1, account);
+  const attempts: FlowAttempt[] = [toAttempt(result, 1)];
+
+  while (result.status === 'failed' && attempts.length <= retries) {
+    if (Date.now() > deadline) {
+      core.warning(`  Time limit reached, not retrying ${flow.name}`);
+      break;
+    }
+    core.info(`  ↻ Retrying ${flow.name} (${attempts.length}/${retries})`);
+    result = await executor.executeFlow(flow, viewport, attempts.length + 1, account);
+    attempts.push(toAttempt(result, attempts.length + 1));
+  }
+
+  if (attempts.length === 1) {
+    return result;
+  }
+
+  const flaky = result.status === 'passed';
+  if (flaky) {
+    core.warning(`  ⚠ ${flow.name} is flaky: passed on attempt ${attempts.length}`);
+  }
+
+  // Keep the trace of the last failed attempt (the passing attempt discards its own)
+  const failedAttempts = attempts.filter(a => a.status === 'failed');
+  return {
+    ...result,
+    status: flaky ? 'flaky' : result.status,
+    duration_ms: attempts.reduce((sum, a) => sum + a.duration_ms, 0),
+    trace_path: result.trace_path || failedAttempts[failedAttempts.length - 1]?.trace_path,
+    attempts,
+  };
+}
+
+function toAttempt(result: ResultPayload, attempt: number): FlowAttempt {
+  return {
+    attempt,
+    status: result.status === 'passed' ? 'passed' : 'failed',
+    duration_ms: result.duration_ms,
+    error_message: result.error_message,
+    trace_path: result.trace_path,
+  };
+}
+
+function defaultAccount(accounts: TestAccount[]): TestAccount | null {
+  return accounts.find(a => a.is_default) || null;
+}
+
+/**
+ * Accounts a flow runs as. Flows without a role use the default account.
+ * Flows that declare a role run as the first account with that role, or with
+ * runAllRoles as one account per role. Returns an empty list when no account fits.
+ */
+function accountsForFlow(
+  flow: FlowPlan,
+  accounts: TestAccount[],
+  runDefault: TestAccount | null,
+  runAllRoles: boolean
+): (TestAccount | null)[] {
+  if (!flow.role) {
+    return [runDefault];
+  }
+  if (runAllRoles) {
+    const roles = [...new Set(accounts.map(a => a.role))];
+    return roles.map(role => accounts.find(a => a.role === role)!);
+  }
+  const match = accounts.find(a => a.role === flow.role);
+  return match ? [match] : [];
+}
+
 export async function executeFlows(
   flows: FlowPlan[],
   baseUrl: string,
   maxDurationMs: number = 60000,
-  testAccount: TestAccount | null = null,
-  viewports: string[] = ['desktop']
+  testAccounts: TestAccount[] = [],
+  viewports: string[] = ['desktop'],
+  options: ExecutionOptions = {}
 ): Promise<ResultPayload[]> {
-  const executor = new PlaywrightExecutor(baseUrl);
-  executor.setTestAccount(testAccount);
+  // Sort flows by priority (higher first)
+  const sortedFlows = [...flows].sort((a, b) => b.priority - a.priority);
 
+  // Resolve which accounts each flow runs as; flows needing a role nobody has are skipped
+  // The same default account the crawl logged in as, so artifact names and
+  // baseline keys don't depend on which accounts the flows use
+  const runDefault = options.defaultAccount !== undefined ? options.defaultAccount : defaultAccount(testAccounts);
   const results: ResultPayload[] = [];
+  const flowAccounts = new Map<FlowPlan, (TestAccount | null)[]>();
+  for (const flow of sortedFlows) {
+    const accounts = accountsForFlow(flow, testAccounts, runDefault, options.runAllRoles || false);
+    if (accounts.length === 0) {
+      core.warning(`Skipping ${flow.name}: no test account with role '${flow.role}'`);
+      results.push({
+        flow_name: flow.name,
+        status: 'skipped',
+        duration_ms: 0,
+        error_message: `No test account with role '${flow.role}'`,
+        steps: [],
+        screenshot_urls: [],
+        role: flow.role,
+      });
+    }
+    flowAccounts.set(flow, accounts);
+  }
+
+  // Only log in as accounts some flow actually runs as
+  const usedAccounts = testAccounts.filter(account =>
+    [...flowAccounts.values()].some(accounts => accounts.includes(account))
+  );
+
+  // One executor per engine, all sharing one login per account
+  const browsers = options.browsers && options.browsers.length > 0 ? options.browsers : ['chromium' as const];
+  const executorOptions = { ...options, auth: options.auth || new AuthManager(baseUrl, browsers[0]) };
+  const executors = new Map<BrowserName, PlaywrightExecutor>();
+  for (const browserName of browsers) {
+    const executor = new PlaywrightExecutor(baseUrl, undefined, executorOptions, browserName);
+    executor.setTestAccounts(usedAccounts, runDefault);
+    executors.set(browserName, executor);
+  }
+
   const startTime = Date.now();
 
   try {
-    await executor.initialize();
-
-    // Sort flows by priority (higher first)
-    const sortedFlows = [...flows].sort((a, b) => b.priority - a.priority);
+    for (const executor of executors.values()) {
+      await executor.initialize();
+    }
 
-    // Execute each flow for each viewport
     for (const viewport of viewports) {
-      const vp = VIEWPORTS[viewport as keyof typeof VIEWPORTS] || VIEWPORTS.desktop;
+      const vp = resolveViewport(viewport)?.viewport || { width: 1280, height: 720 };
       core.info(`Testing with viewport: ${viewport} (${vp.width}x${vp.height})`);
+    }
+
+    // One job per flow per account per browser per viewport, highest priority flows
+    // first so the time budget drops the least important flows
+    const jobs = sortedFlows.flatMap(flow =>
+      flowAccounts.get(flow)!.flatMap(account =>
+        browsers.flatMap(browserName => viewports.map(viewport => ({ flow, account, browserName, viewport })))
+      )
+    );
+    const jobResults: (ResultPayload | undefined)[] = new Array(jobs.length);
+    let nextJob = 0;
+    let timeLimitReached = false;
 
-      for (const flow of sortedFlows) {
+    // Each worker pulls the next job; every flow runs in its own browser context
+    const worker = async (): Promise<void> => {
+      while (nextJob < jobs.length) {
         // Check if we're running out of time
-        const elapsed = Date.now() - startTime;
-        if (elapsed > maxDurationMs) {
-          core.warning(`Time limit reached, skipping remaining flows`);
-          break;
+        if (Date.now() - startTime > maxDurationMs) {
+          if (!timeLimitReached) {
+            timeLimitReached = true;
+            core.warning(`Time limit reached, skipping remaining flows`);
+          }
+          return;
         }
 
-        const result = await executor.executeFlow(flow, viewport);
-        results.push(result);
+        const index = nextJob++;
+        const { flow, account, browserName, viewport } = jobs[index];
+        jobResults[index] = await executeWithRetries(
+          executors.get(browserName)!, flow, viewport, account, options.retries || 0, startTime + maxDurationMs
+        );
       }
+    };
 
-      // Check time limit after each viewport
-      const elapsed = Date.now() - startTime;
-      if (elapsed > maxDurationMs) {
-        break;
-      }
+    const workerCount = Math.max(1, Math.min(options.concurrency || 1, jobs.length));
+    if (workerCount > 1) {
+      core.info(`Running flows with concurrency ${workerCount}`);
+    }
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    for (const result of jobResults) {
+      if (result) results.push(result);
     }
   } finally {
-    await executor.cleanup();
+    for (const executor of executors.values()) {
+      await executor.cleanup();
+    }
   }
 
   return results;
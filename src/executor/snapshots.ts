@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page } from 'playwright';
+import { redactSecrets } from './variables';
+
+// Keep snapshots small enough to upload with the results
+const MAX_SNAPSHOT_LENGTH = 200000;
+
+/**
+ * Page HTML without scripts, styles, event handlers or sensitive input values.
+ */
+async function sanitizedHtml(page: Page): Promise<string> {
+  const html = await page.evaluate(() => {
+    const clone = document.documentElement.cloneNode(true) as HTMLElement;
+    clone.querySelectorAll('script, style, noscript, template, link[rel="stylesheet"]').forEach(el => el.remove());
+    clone.querySelectorAll('svg').forEach(el => { el.innerHTML = ''; });
+
+    for (const el of Array.from(clone.querySelectorAll('*'))) {
+      for (const attr of Array.from(el.attributes)) {
+        if (attr.name.startsWith('on') || attr.name === 'srcdoc') {
+          el.removeAttribute(attr.name);
+        }
+      }
+    }
+    // Passwords and hidden fields (CSRF tokens, session ids) never leave the runner
+    clone.querySelectorAll('input[type="password"], input[type="hidden"]').forEach(el => {
+      if (el.hasAttribute('value')) el.setAttribute('value', '***');
+    });
+
+    return '<!DOCTYPE html>\n' + clone.outerHTML;
+  });
+
+  const redacted = redactSecrets(html);
+  return redacted.length > MAX_SNAPSHOT_LENGTH
+    ? redacted.substring(0, MAX_SNAPSHOT_LENGTH) + '\n<!-- truncated -->'
+    : redacted;
+}
+
+/**
+ * Save a sanitized HTML snapshot and the accessibility tree (Playwright ARIA
+ * snapshot, YAML) of the page at the point of failure, next to the failure screenshot.
+ * Returns the file paths; a snapshot that can't be taken (page closed) is left out.
+ */
+export async function captureFailureSnapshots(
+  page: Page,
+  basePath: string
+): Promise<{ dom_snapshot?: string; accessibility_tree?: string }> {
+  const snapshots: { dom_snapshot?: string; accessibility_tree?: string } = {};
+  fs.mkdirSync(path.dirname(basePath), { recursive: true });
+
+  try {
+    const domPath = `${basePath}.html`;
+    fs.writeFileSync(domPath, await sanitizedHtml(page));
+    snapshots.dom_snapshot = domPath;
+  } catch {
+    // Page closed or navigating - nothing to snapshot
+  }
+
+  try {
+    const treePath = `${basePath}.aria.yml`;
+    const tree = await page.locator('body').ariaSnapshot({ timeout: 5000 });
+    fs.writeFileSync(treePath, redactSecrets(tree));
+    snapshots.accessibility_tree = treePath;
+  } catch {
+    // Page closed or navigating - nothing to snapshot
+  }
+
+  return snapshots;
+}
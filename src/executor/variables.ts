@@ -0,0 +1,203 @@
+import * as core from '@actions/core';
+import { randomInt, randomUUID } from 'crypto';
+import { Locator, Page } from 'playwright';
+import { FlowDiagnostics, PlaywrightStep, StepExtraction, StepResult } from '../api/client';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.$:-]+)\s*\}\}/g;
+
+// {{secret.NAME}} reads SCOUTAI_SECRET_NAME, so a plan can't read arbitrary runner env
+const SECRET_ENV_PREFIX = 'SCOUTAI_SECRET_';
+const REDACTED = '***';
+
+const FIRST_NAMES = ['Alex', 'Jordan', 'Taylor', 'Morgan', 'Casey', 'Riley', 'Jamie', 'Avery', 'Quinn', 'Rowan'];
+const LAST_NAMES = ['Smith', 'Garcia', 'Chen', 'Patel', 'Kim', 'Okafor', 'Novak', 'Silva', 'Haddad', 'Larsen'];
+
+// Every secret resolved this run, redacted from results before they leave the executor
+const secretValues = new Set<string>();
+
+/**
+ * Generated test data for {{$name}} placeholders. An argument after a colon
+ * customizes it, e.g. {{$email:qa.example.com}}.
+ */
+function generate(generator: string, arg?: string): string {
+  const unique = `${Date.now().toString(36)}${randomInt(36 ** 4).toString(36).padStart(4, '0')}`;
+  switch (generator) {
+    case 'email':
+      return `scoutai+${unique}@${arg || 'example.com'}`;
+    case 'uuid':
+      return randomUUID();
+    case 'timestamp':
+      return String(Date.now());
+    case 'name':
+      return `${FIRST_NAMES[randomInt(FIRST_NAMES.length)]} ${LAST_NAMES[randomInt(LAST_NAMES.length)]}`;
+    case 'random':
+      return unique;
+    default:
+      throw new Error(`Unknown generator: {{$${generator}}}. Use $email, $uuid, $timestamp, $name or $random`);
+  }
+}
+
+function resolveSecret(name: string): string {
+  const value = process.env[`${SECRET_ENV_PREFIX}${name}`];
+  if (value === undefined) {
+    throw new Error(`Secret ${name} is not set (expected environment variable ${SECRET_ENV_PREFIX}${name})`);
+  }
+  if (!secretValues.has(value)) {
+    core.setSecret(value);
+    secretValues.add(value);
+  }
+  return value;
+}
+
+/**
+ * Replace {{name}} references with flow variables, {{$generator}} test data and
+ * {{secret.NAME}} secrets. Generated values are stored in the variables, so the
+ * same placeholder gives the same value for the rest of the flow. Throws on unknown
+ * names so a typo fails the step instead of typing "{{orderId}}" into the page.
+ */
+export function interpolate(text: string, variables: Record<string, string>, used: Record<string, string> = {}): string {
+  return text.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    if (name.startsWith('secret.')) {
+      used[name] = REDACTED;
+      return resolveSecret(name.slice('secret.'.length));
+    }
+    if (name.startsWith('$') && !(name in variables)) {
+      const [generator, arg] = name.slice(1).split(':');
+      variables[name] = generate(generator, arg);
+    }
+    if (!(name in variables)) {
+      throw new Error(`Unknown variable: {{${name}}}`);
+    }
+    used[name] = variables[name];
+    return variables[name];
+  });
+}
+
+/**
+ * Replace every secret resolved this run with ***.
+ */
+export function redactSecrets(text: string): string;
+export function redactSecrets(text: string | undefined): string | undefined;
+export function redactSecrets(text: string | undefined): string | undefined {
+  if (!text) return text;
+  let redacted = text;
+  for (const secret of secretValues) {
+    if (secret) redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * A step result with secrets removed from its error, assertion values and variables.
+ */
+export function redactStepResult(result: StepResult): StepResult {
+  if (secretValues.size === 0) return result;
+  return {
+    ...result,
+    error: redactSecrets(result.error),
+    expected: redactSecrets(result.expected),
+    actual: redactSecrets(result.actual),
+    healed_selector: redactSecrets(result.healed_selector),
+    dialogs: result.dialogs?.map(m => redactSecrets(m)),
+    variables: result.variables && Object.fromEntries(
+      Object.entries(result.variables).map(([name, value]) => [name, redactSecrets(value)])
+    ),
+  };
+}
+
+/**
+ * Diagnostics with secrets removed (a page can echo a typed secret into a request URL or log).
+ */
+export function redactDiagnostics(diagnostics: FlowDiagnostics): FlowDiagnostics {
+  if (secretValues.size === 0) return diagnostics;
+  return {
+    console_errors: diagnostics.console_errors.map(m => redactSecrets(m)),
+    page_errors: diagnostics.page_errors.map(m => redactSecrets(m)),
+    failed_requests: diagnostics.failed_requests.map(r => ({
+      ...r,
+      url: redactSecrets(r.url),
+      failure: redactSecrets(r.failure),
+    })),
+  };
+}
+
+/**
+ * Resolve variables in a step's selectors and values.
+ * Returns the resolved step and the variables it used.
+ */
+export function interpolateStep(
+  step: PlaywrightStep,
+  variables: Record<string, string>
+): { step: PlaywrightStep; used: Record<string, string> } {
+  const used: Record<string, string> = {};
+  const resolve = (text: string | undefined) => text === undefined ? undefined : interpolate(text, variables, used);
+
+  const resolved: PlaywrightStep = {
+    ...step,
+    selector: resolve(step.selector),
+    value: resolve(step.value),
+    values: step.values?.map(v => interpolate(v, variables, used)),
+    target_selector: resolve(step.target_selector),
+  };
+  if (step.assertion && typeof step.assertion.expected === 'string') {
+    resolved.assertion = { ...step.assertion, expected: interpolate(step.assertion.expected, variables, used) };
+  }
+
+  return { step: resolved, used };
+}
+
+/**
+ * Read a value from the page for an 'extract' step: an element's text, input value
+ * or attribute, or the current URL (optionally one path segment of it).
+ * An optional regex narrows the value to its first capture group.
+ */
+export async function extractValue(
+  page: Page,
+  locator: Locator | null,
+  extraction: StepExtraction,
+  timeout: number
+): Promise<string> {
+  let value: string;
+
+  switch (extraction.source) {
+    case 'url': {
+      const url = new URL(page.url());
+      if (extraction.segment === undefined) {
+        value = url.href;
+        break;
+      }
+      const segments = url.pathname.split('/').filter(Boolean);
+      const index = extraction.segment < 0 ? segments.length + extraction.segment : extraction.segment;
+      if (index < 0 || index >= segments.length) {
+        throw new Error(`URL ${url.pathname} has no path segment ${extraction.segment}`);
+      }
+      value = decodeURIComponent(segments[index]);
+      break;
+    }
+
+    case 'attribute':
+      if (!locator) throw new Error('Extracting an attribute requires a selector');
+      if (!extraction.attribute) throw new Error('Extracting an attribute requires an attribute name');
+      value = await locator.getAttribute(extraction.attribute, { timeout }) ?? '';
+      break;
+
+    case 'value':
+      if (!locator) throw new Error('Extracting an input value requires a selector');
+      value = await locator.inputValue({ timeout });
+      break;
+
+    default:
+      if (!locator) throw new Error('Extracting text requires a selector');
+      value = (await locator.innerText({ timeout })).trim();
+  }
+
+  if (extraction.pattern) {
+    const match = value.match(new RegExp(extraction.pattern));
+    if (!match) {
+      throw new Error(`Extracted value "${value}" does not match /${extraction.pattern}/`);
+    }
+    value = match[1] ?? match[0];
+  }
+
+  return value;
+}
@@ -1,13 +1,18 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import * as exec from '@actions/exec';
-import { ScoutAIClient, ResultPayload, DiffFile, TestResult, GeneratedTest } from './api/client';
+import { ScoutAIClient, ResultPayload, DiffFile, TestResult, GeneratedTest, TestAccount, WaitUntil, EmulationSettings } from './api/client';
 import { extractDiffMetadata, extractLikelyUrls } from './diff/extractor';
 import { executeFlows } from './executor/playwright';
-import { postPRComment, postSkippedPRComment, calculateSummary, setOutputs } from './reporter/github';
+import { postPRComment, postSkippedPRComment, calculateSummary, setOutputs, DASHBOARD_URL } from './reporter/github';
 import { createIssuesForFailures } from './reporter/issues';
-import { crawlSite, CrawlCredentials } from './crawler';
+import { crawlSite } from './crawler';
+import { BrowserName, parseBrowsers, parseViewports } from './browser';
+import { isNetworkProfile, NETWORK_PROFILE_NAMES, parseGeolocation, validateEmulation } from './browser/emulation';
 import { collectCodebaseContext } from './context/collector';
+import { isAccessibilityImpact, meetsSeverity, mergeViolations } from './accessibility/audit';
+import { loadBudgets } from './performance/metrics';
+import { AuthManager } from './auth';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -121,31 +126,68 @@ function getChangeDescription(categories: FileCategories): string {
 }
 
 /**
- * Convert local screenshot paths to base64 data URLs
+ * Convert a local image path to a base64 data URL (returns the path unchanged on failure)
+ */
+function imageToDataUrl(imagePath: string): string {
+  try {
+    if (fs.existsSync(imagePath)) {
+      const imageData = fs.readFileSync(imagePath);
+      const base64 = imageData.toString('base64');
+      const ext = path.extname(imagePath).toLowerCase();
+      const mimeType = ext === '.png' ? 'image/png' : 'image/jpeg';
+      return `data:${mimeType};base64,${base64}`;
+    }
+  } catch (error) {
+    core.warning(`Failed to read screenshot ${imagePath}: ${error}`);
+  }
+  return imagePath; // Return original path if conversion fails
+}
+
+/**
+ * Read a local text file for upload (returns undefined if it can't be read)
+ */
+function readSnapshot(filePath: string | undefined): string | undefined {
+  if (!filePath) return undefined;
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    core.warning(`Failed to read snapshot ${filePath}: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Convert local screenshot and visual diff paths to base64 data URLs,
+ * and replace failure snapshot paths with their contents.
+ * Each image is read and encoded once, even when a failed step's frame is also the failure screenshot.
  */
 function convertScreenshotsToDataUrls(results: ResultPayload[]): ResultPayload[] {
+  const dataUrls = new Map<string, string>();
+  const toDataUrl = (imagePath: string): string => {
+    if (!dataUrls.has(imagePath)) dataUrls.set(imagePath, imageToDataUrl(imagePath));
+    return dataUrls.get(imagePath)!;
+  };
+
   return results.map(result => ({
     ...result,
-    screenshot_urls: result.screenshot_urls.map(screenshotPath => {
-      try {
-        if (fs.existsSync(screenshotPath)) {
-          const imageData = fs.readFileSync(screenshotPath);
-          const base64 = imageData.toString('base64');
-          const ext = path.extname(screenshotPath).toLowerCase();
-          const mimeType = ext === '.png' ? 'image/png' : 'image/jpeg';
-          return `data:${mimeType};base64,${base64}`;
-        }
-      } catch (error) {
-        core.warning(`Failed to read screenshot ${screenshotPath}: ${error}`);
-      }
-      return screenshotPath; // Return original path if conversion fails
-    }),
+    screenshot_urls: result.screenshot_urls.map(toDataUrl),
+    steps: result.steps.map(step => ({
+      ...step,
+      screenshot: step.screenshot && toDataUrl(step.screenshot),
+      dom_snapshot: readSnapshot(step.dom_snapshot),
+      accessibility_tree: readSnapshot(step.accessibility_tree),
+    })),
+    visual: result.visual?.diff_path
+      ? { ...result.visual, diff_path: toDataUrl(result.visual.diff_path) }
+      : result.visual,
   }));
 }
 
-async function installPlaywright(): Promise<void> {
-  core.info('Installing Playwright browsers...');
-  await exec.exec('npx', ['playwright', 'install', 'chromium']);
+async function installPlaywright(browsers: BrowserName[]): Promise<void> {
+  core.info(`Installing Playwright browsers (${browsers.join(', ')})...`);
+  // Firefox and WebKit need system libraries that aren't on the runner by default
+  const needsDeps = browsers.some(b => b !== 'chromium');
+  await exec.exec('npx', ['playwright', 'install', ...(needsDeps ? ['--with-deps'] : []), ...browsers]);
 }
 
 /**
@@ -452,7 +494,7 @@ async function runScoutTestMode(
 
   if (codebaseContext.diff.files.length === 0) {
     core.info('No changed files detected, skipping Scout Test');
-    setOutputs('skipped', 'passed', { passed: 0, failed: 0, skipped: 0, duration_ms: 0 });
+    setOutputs('skipped', 'passed', { passed: 0, failed: 0, skipped: 0, flaky: 0, duration_ms: 0 });
     return;
   }
 
@@ -475,7 +517,7 @@ async function runScoutTestMode(
 
   if (run.tests.length === 0) {
     core.info('No tests generated - coverage is sufficient');
-    setOutputs(analyzeResponse.run_id, 'passed', { passed: 0, failed: 0, skipped: 0, duration_ms: 0 });
+    setOutputs(analyzeResponse.run_id, 'passed', { passed: 0, failed: 0, skipped: 0, flaky: 0, duration_ms: 0 });
     return;
   }
 
@@ -516,6 +558,7 @@ async function runScoutTestMode(
     passed,
     failed,
     skipped: 0,
+    flaky: 0,
     duration_ms: totalDuration,
   });
 
@@ -555,14 +598,91 @@ async function run(): Promise<void> {
     const authPasswordSelector = core.getInput('auth-password-selector');
     const authSubmitSelector = core.getInput('auth-submit-selector');
     const authSuccessIndicator = core.getInput('auth-success-indicator');
+    const authType = core.getInput('auth-type') || 'form';
+    if (!['form', 'basic', 'api_key', 'oauth'].includes(authType)) {
+      throw new Error(`Invalid auth-type: ${authType}. Use form, basic, api_key or oauth.`);
+    }
+    const authTotpSecret = core.getInput('auth-totp-secret');
+    if (authTotpSecret) {
+      core.setSecret(authTotpSecret);
+    }
+    const authApiKey = core.getInput('auth-api-key');
+    const authStorageState = core.getInput('auth-storage-state');
 
     // Environment and trigger inputs
     let environment = core.getInput('environment') || 'staging';
     const trigger = core.getInput('trigger') || detectTrigger();
     const createIssues = core.getInput('create-issues') === 'true';
     const skipInfraOnly = core.getInput('skip-infra-only') !== 'false'; // Default true
-    const viewportsInput = core.getInput('viewports') || 'desktop';
-    const viewports = viewportsInput.split(',').map(v => v.trim()).filter(v => ['desktop', 'mobile'].includes(v));
+    const viewports = parseViewports(core.getInput('viewports') || 'desktop');
+    const browsers = parseBrowsers(core.getInput('browsers') || 'chromium');
+    const fixturesDir = core.getInput('fixtures-dir') || '.';
+    const captureTraces = core.getInput('capture-traces') !== 'false'; // Default true
+    const selfHealing = core.getInput('self-healing') !== 'false'; // Default true
+    const runAllRoles = core.getInput('run-all-roles') === 'true';
+    const auditAccessibility = core.getInput('accessibility-audit') === 'true';
+    const accessibilityFailOn = core.getInput('accessibility-fail-on') || 'none';
+    if (accessibilityFailOn !== 'none' && !isAccessibilityImpact(accessibilityFailOn)) {
+      throw new Error(`Invalid accessibility-fail-on: ${accessibilityFailOn}. Use none, minor, moderate, serious or critical.`);
+    }
+    const visualRegression = core.getInput('visual-regression') === 'true';
+    const visualThreshold = parseFloat(core.getInput('visual-threshold') || '0.1');
+    if (isNaN(visualThreshold) || visualThreshold < 0 || visualThreshold > 100) {
+      throw new Error(`Invalid visual-threshold: ${core.getInput('visual-threshold')}. Must be a percentage between 0 and 100.`);
+    }
+    const performanceBudgetsFile = core.getInput('performance-budgets');
+    const performanceBudgets = performanceBudgetsFile ? loadBudgets(performanceBudgetsFile) : undefined;
+    const failOnJsErrors = core.getInput('fail-on-js-errors') === 'true';
+    const retries = parseInt(core.getInput('retries') || '0', 10);
+    if (isNaN(retries) || retries < 0) {
+      throw new Error(`Invalid retries: ${core.getInput('retries')}. Must be a non-negative integer.`);
+    }
+    const stepTimeoutMs = parseInt(core.getInput('step-timeout') || '10000', 10);
+    if (isNaN(stepTimeoutMs) || stepTimeoutMs < 1) {
+      throw new Error(`Invalid step-timeout: ${core.getInput('step-timeout')}. Must be a positive number of milliseconds.`);
+    }
+    const waitUntil = core.getInput('wait-until') || 'networkidle';
+    if (!['load', 'domcontentloaded', 'networkidle'].includes(waitUntil)) {
+      throw new Error(`Invalid wait-until: ${waitUntil}. Use load, domcontentloaded or networkidle.`);
+    }
+
+    // Browser emulation defaults; flows can override each setting
+    const emulation: EmulationSettings = {};
+    if (core.getInput('locale')) emulation.locale = core.getInput('locale');
+    if (core.getInput('timezone')) emulation.timezone = core.getInput('timezone');
+    const geolocationInput = core.getInput('geolocation');
+    if (geolocationInput) {
+      const geolocation = parseGeolocation(geolocationInput);
+      if (!geolocation) {
+        throw new Error(`Invalid geolocation: ${geolocationInput}. Use "latitude,longitude", e.g. "52.52,13.405".`);
+      }
+      emulation.geolocation = geolocation;
+    }
+    const colorScheme = core.getInput('color-scheme');
+    if (colorScheme) {
+      if (colorScheme !== 'light' && colorScheme !== 'dark' && colorScheme !== 'no-preference') {
+        throw new Error(`Invalid color-scheme: ${colorScheme}. Use light, dark or no-preference.`);
+      }
+      emulation.color_scheme = colorScheme;
+    }
+    if (core.getInput('reduced-motion') === 'true') emulation.reduced_motion = true;
+    const networkProfile = core.getInput('network-profile');
+    if (networkProfile) {
+      if (!isNetworkProfile(networkProfile) || networkProfile === 'online') {
+        throw new Error(`Invalid network-profile: ${networkProfile}. Use ${NETWORK_PROFILE_NAMES.filter(n => n !== 'online').join(', ')}.`);
+      }
+      emulation.network = networkProfile;
+    }
+    const emulationError = validateEmulation(emulation);
+    if (emulationError) {
+      throw new Error(emulationError);
+    }
+    const softAssertions = core.getInput('soft-assertions') === 'true';
+    const stepScreenshots = core.getInput('step-screenshots') === 'true';
+    const concurrency = parseInt(core.getInput('concurrency') || '1', 10);
+    if (isNaN(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid concurrency: ${core.getInput('concurrency')}. Must be a positive integer.`);
+    }
 
     core.info(`ScoutAI QA - Mode: ${mode}`);
     core.info(`Environment: ${environment}, Trigger: ${trigger}`);
@@ -658,33 +778,43 @@ async function run(): Promise<void> {
       await postSkippedPRComment(changeDesc, diffMetadata.files);
 
       // Set outputs for skipped run
-      setOutputs('skipped', 'passed', { passed: 0, failed: 0, skipped: 0, duration_ms: 0 });
+      setOutputs('skipped', 'passed', { passed: 0, failed: 0, skipped: 0, flaky: 0, duration_ms: 0 });
       core.info('ScoutAI QA: Skipped - no user-facing changes detected');
       return;
     }
 
     // Install Playwright browsers (needed for crawling)
-    await installPlaywright();
+    await installPlaywright(browsers);
 
     // Determine test account for authentication (used for both crawling and execution)
     // Priority: 1) Action inputs, 2) API-configured account from project settings
-    let testAccount = null;
+    let testAccount: TestAccount | null = null;
+
+    const hasInputAuth = authType === 'api_key' ? !!authApiKey
+      : authType === 'oauth' ? !!authStorageState
+      : !!(authUsername && authPassword);
 
-    if (authUsername && authPassword) {
+    if (hasInputAuth) {
       // Use credentials from action inputs
-      core.info('Using auth credentials from action inputs');
+      core.info(`Using ${authType} auth from action inputs`);
       testAccount = {
         id: 'input-auth',
         name: 'Action Input Auth',
         role: 'user',
         email: authUsername,
         password: authPassword,
-        auth_type: 'form' as const,
+        auth_type: authType as TestAccount['auth_type'],
         login_url: authLoginUrl,
         email_selector: authEmailSelector || undefined,
         password_selector: authPasswordSelector || undefined,
         submit_selector: authSubmitSelector || undefined,
         success_indicator: authSuccessIndicator || undefined,
+        api_key: authApiKey || undefined,
+        api_key_header: core.getInput('auth-api-key-header') || undefined,
+        api_key_cookie: core.getInput('auth-api-key-cookie') || undefined,
+        storage_state_path: authStorageState || undefined,
+        totp_secret: authTotpSecret || undefined,
+        totp_selector: core.getInput('auth-totp-selector') || undefined,
         is_default: true,
         is_active: true,
       };
@@ -699,6 +829,19 @@ async function run(): Promise<void> {
       }
     }
 
+    // Every active project account, default first, so flows can run as other roles
+    let testAccounts: TestAccount[] = testAccount ? [testAccount] : [];
+    try {
+      const projectAccounts = (await client.getTestAccounts(projectId))
+        .filter(a => a.is_active && a.id !== testAccount?.id);
+      testAccounts = [...testAccounts, ...projectAccounts];
+      if (projectAccounts.length > 0) {
+        core.info(`Additional roles available: ${[...new Set(projectAccounts.map(a => a.role))].join(', ')}`);
+      }
+    } catch (error) {
+      core.debug(`Could not fetch test accounts: ${error}`);
+    }
+
     // Extract likely URLs from changed file paths to prioritize crawling affected pages
     const priorityPaths = extractLikelyUrls(diffMetadata.files);
     if (priorityPaths.length > 0) {
@@ -713,33 +856,29 @@ async function run(): Promise<void> {
     const maxPages = mode === 'fast' ? 3 : 5;
     core.info(`Crawling site to discover page structure (max ${maxPages} pages)...`);
 
-    // Build crawl credentials from test account (action inputs or API-configured)
-    let crawlCredentials: CrawlCredentials | undefined;
-    if (testAccount && testAccount.auth_type === 'form') {
-      crawlCredentials = {
-        email: testAccount.email,
-        password: testAccount.password,
-        loginUrl: testAccount.login_url || '/login',
-        emailSelector: testAccount.email_selector || undefined,
-        passwordSelector: testAccount.password_selector || undefined,
-        submitSelector: testAccount.submit_selector || undefined,
-        successIndicator: testAccount.success_indicator || undefined,
-      };
-      core.info(`Crawling with authentication (${testAccount.name})`);
-    } else if (testAccount) {
-      core.info(`Test account auth_type is '${testAccount.auth_type}' - crawler only supports 'form' auth, crawling anonymously`);
+    // One login per account for the whole run, shared by the crawl and every flow
+    const auth = new AuthManager(baseUrl, browsers[0]);
+    if (testAccount) {
+      core.info(`Crawling with ${testAccount.auth_type} authentication (${testAccount.name})`);
     }
 
     let siteContext;
     let crawlAuthResult;
     try {
-      const crawlResult = await crawlSite(baseUrl, maxPages, priorityPaths, crawlCredentials);
+      // Crawl once with the first configured browser and viewport, so the plan
+      // targets the same page structure the flows will see
+      const crawlResult = await crawlSite(baseUrl, maxPages, priorityPaths, testAccount, {
+        browserName: browsers[0],
+        viewport: viewports[0],
+        auditAccessibility,
+        auth,
+      });
       siteContext = { pages: crawlResult.pages };
       crawlAuthResult = crawlResult.authResult;
 
       if (crawlAuthResult) {
         if (crawlAuthResult.success) {
-          core.info(`Authenticated crawl successful - landed at: ${crawlAuthResult.postLoginUrl}`);
+          core.info(`Authenticated crawl successful${crawlAuthResult.postLoginUrl ? ` - landed at: ${crawlAuthResult.postLoginUrl}` : ''}`);
         } else {
           core.warning(`Authenticated crawl failed: ${crawlAuthResult.error}`);
         }
@@ -779,7 +918,7 @@ async function run(): Promise<void> {
 
     if (testPlan.flows.length === 0) {
       core.info('No flows to execute - test plan is empty');
-      setOutputs(runId, 'passed', { passed: 0, failed: 0, skipped: 0, duration_ms: 0 });
+      setOutputs(runId, 'passed', { passed: 0, failed: 0, skipped: 0, flaky: 0, duration_ms: 0 });
       return;
     }
 
@@ -797,21 +936,70 @@ async function run(): Promise<void> {
       fs.mkdirSync(screenshotDir, { recursive: true });
     }
 
+    // Create traces directory (traces are kept for failed flows only)
+    const traceDir = './scoutai-traces';
+    if (captureTraces && !fs.existsSync(traceDir)) {
+      fs.mkdirSync(traceDir, { recursive: true });
+    }
+
     // Execute flows with time limit
     const maxDuration = mode === 'fast' ? 55000 : 9 * 60 * 1000; // 55s for fast, 9min for deep
     core.info(`Executing flows (max ${maxDuration / 1000}s)...`);
 
-    const results = await executeFlows(testPlan.flows, baseUrl, maxDuration, testAccount, viewports);
+    const results = await executeFlows(testPlan.flows, baseUrl, maxDuration, testAccounts, viewports, {
+      fixturesDir,
+      traceDir: captureTraces ? traceDir : undefined,
+      failOnPageErrors: failOnJsErrors,
+      concurrency,
+      retries,
+      browsers,
+      crawledPages: selfHealing ? siteContext?.pages : undefined,
+      visual: visualRegression ? {
+        baselineDir: core.getInput('visual-baseline-dir') || '.scoutai/baselines',
+        diffDir: './scoutai-visual-diffs',
+        maxDiffRatio: visualThreshold / 100,
+        maskSelectors: core.getInput('visual-mask').split(',').map(s => s.trim()).filter(Boolean),
+        updateBaselines: core.getInput('update-visual-baselines') === 'true',
+      } : undefined,
+      auditAccessibility,
+      performanceBudgets,
+      stepTimeoutMs,
+      waitUntil: waitUntil as WaitUntil,
+      emulation,
+      softAssertions,
+      stepScreenshots,
+      runAllRoles,
+      defaultAccount: testAccount,
+      auth,
+    });
 
     // Calculate summary
     const summary = calculateSummary(results);
-    const overallStatus = summary.failed > 0 ? 'failed' : 'passed';
+
+    // Merge accessibility violations from the crawl and the flows
+    const accessibilityViolations = auditAccessibility
+      ? mergeViolations([
+          ...(siteContext?.pages || []).flatMap(p => p.accessibility || []),
+          ...results.flatMap(r => r.accessibility || []),
+        ], priorityPaths)
+      : [];
+    const blockingViolations = accessibilityViolations.filter(v =>
+      isAccessibilityImpact(accessibilityFailOn) && meetsSeverity(v.impact, accessibilityFailOn)
+    );
+
+    const overallStatus = summary.failed > 0 || blockingViolations.length > 0 ? 'failed' : 'passed';
 
     core.info('');
     core.info('=== Results ===');
     core.info(`Passed: ${summary.passed}`);
     core.info(`Failed: ${summary.failed}`);
+    if (summary.flaky > 0) {
+      core.info(`Flaky: ${summary.flaky}`);
+    }
     core.info(`Duration: ${(summary.duration_ms / 1000).toFixed(1)}s`);
+    if (auditAccessibility) {
+      core.info(`Accessibility violations: ${accessibilityViolations.length}`);
+    }
 
     // Convert screenshot paths to base64 data URLs and upload results
     core.info('Processing screenshots and uploading results...');
@@ -823,10 +1011,11 @@ async function run(): Promise<void> {
       passed: summary.passed,
       failed: summary.failed,
       skipped: summary.skipped,
+      flaky: summary.flaky,
     });
 
     // Post PR comment
-    await postPRComment(testPlan, results, runId);
+    await postPRComment(testPlan, results, runId, DASHBOARD_URL, accessibilityViolations, auth.failures());
 
     // Create GitHub Issues for failures if enabled
     if (createIssues && summary.failed > 0) {
@@ -848,10 +1037,15 @@ async function run(): Promise<void> {
 
     // Set final status
     const totalDuration = ((Date.now() - startTime) / 1000).toFixed(1);
-    if (overallStatus === 'failed') {
+    if (summary.failed > 0) {
       core.setFailed(`ScoutAI QA: ${summary.failed} flow(s) failed (${totalDuration}s)`);
+    } else if (blockingViolations.length > 0) {
+      core.setFailed(
+        `ScoutAI QA: ${blockingViolations.length} accessibility violation(s) at or above '${accessibilityFailOn}' (${totalDuration}s)`
+      );
     } else {
-      core.info(`ScoutAI QA: All ${summary.passed} flows passed (${totalDuration}s)`);
+      const flakyNote = summary.flaky > 0 ? `, ${summary.flaky} flaky` : '';
+      core.info(`ScoutAI QA: All ${summary.passed + summary.flaky} flows passed${flakyNote} (${totalDuration}s)`);
     }
 
   } catch (error) {
@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import { Page } from 'playwright';
+import { NavigationMetrics } from '../api/client';
+
+/**
+ * Limits for one route. Any metric left out is not checked.
+ */
+export interface PerformanceBudget {
+  lcp_ms?: number;
+  cls?: number;
+  ttfb_ms?: number;
+  transfer_kb?: number;
+  js_kb?: number;
+  mode?: 'fail' | 'warn';  // Fail the flow or only warn when exceeded (default: fail)
+}
+
+/**
+ * Budgets keyed by route pattern, e.g. "/", "/products/*" or "*" for every page.
+ */
+export type PerformanceBudgets = Record<string, PerformanceBudget>;
+
+const BUDGET_KEYS = ['lcp_ms', 'cls', 'ttfb_ms', 'transfer_kb', 'js_kb'];
+
+/**
+ * Load and validate a budgets JSON file.
+ */
+export function loadBudgets(filePath: string): PerformanceBudgets {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Performance budgets file not found: ${filePath}`);
+  }
+
+  let budgets: unknown;
+  try {
+    budgets = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid performance budgets file ${filePath}: ${error}`);
+  }
+  if (!budgets || typeof budgets !== 'object' || Array.isArray(budgets)) {
+    throw new Error(`Invalid performance budgets file ${filePath}: expected an object keyed by route`);
+  }
+
+  for (const [route, budget] of Object.entries(budgets as Record<string, unknown>)) {
+    if (budget !== null && (typeof budget !== 'object' || Array.isArray(budget))) {
+      throw new Error(`Invalid performance budget for ${route}: expected an object of limits`);
+    }
+    for (const [key, value] of Object.entries(budget || {})) {
+      if (key === 'mode') {
+        if (value !== 'fail' && value !== 'warn') {
+          throw new Error(`Invalid performance budget mode for ${route}: ${value}. Must be fail or warn.`);
+        }
+      } else if (!BUDGET_KEYS.includes(key) || typeof value !== 'number' || value < 0) {
+        throw new Error(`Invalid performance budget for ${route}: ${key}=${value}. Use ${BUDGET_KEYS.join(', ')} with numbers.`);
+      }
+    }
+  }
+
+  return budgets as PerformanceBudgets;
+}
+
+function routeMatches(pattern: string, pathname: string): boolean {
+  const escaped = pattern.replace(/\/$/, '').split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}/?$`).test(pathname);
+}
+
+/**
+ * Find the budget for a URL. The most specific matching pattern (most literal
+ * characters) wins, so "/products/*" overrides "*".
+ */
+export function findBudget(url: string, budgets: PerformanceBudgets): PerformanceBudget | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+
+  const route = Object.keys(budgets)
+    .filter(pattern => routeMatches(pattern, pathname))
+    .sort((a, b) => b.replace(/\*/g, '').length - a.replace(/\*/g, '').length)[0];
+  return route ? budgets[route] : null;
+}
+
+/**
+ * Compare metrics against a budget. Returns one message per exceeded limit.
+ * Metrics the browser didn't report are skipped.
+ */
+export function checkBudget(metrics: NavigationMetrics, budget: PerformanceBudget): string[] {
+  const violations: string[] = [];
+  const kb = (bytes: number) => Math.round(bytes / 1024);
+
+  if (budget.lcp_ms !== undefined && metrics.lcp_ms !== undefined && metrics.lcp_ms > budget.lcp_ms) {
+    violations.push(`LCP ${metrics.lcp_ms}ms > ${budget.lcp_ms}ms`);
+  }
+  if (budget.cls !== undefined && metrics.cls !== undefined && metrics.cls > budget.cls) {
+    violations.push(`CLS ${metrics.cls} > ${budget.cls}`);
+  }
+  if (budget.ttfb_ms !== undefined && metrics.ttfb_ms !== undefined && metrics.ttfb_ms > budget.ttfb_ms) {
+    violations.push(`TTFB ${metrics.ttfb_ms}ms > ${budget.ttfb_ms}ms`);
+  }
+  if (budget.transfer_kb !== undefined && kb(metrics.transfer_bytes) > budget.transfer_kb) {
+    violations.push(`transfer ${kb(metrics.transfer_bytes)} KB > ${budget.transfer_kb} KB`);
+  }
+  if (budget.js_kb !== undefined && kb(metrics.js_bytes) > budget.js_kb) {
+    violations.push(`JS ${kb(metrics.js_bytes)} KB > ${budget.js_kb} KB`);
+  }
+
+  return violations;
+}
+
+/**
+ * Read Web Vitals and transfer sizes for the current document from the
+ * browser's performance timeline. CLS is the sum of shifts not caused by input.
+ */
+export async function measureNavigation(page: Page): Promise<NavigationMetrics> {
+  const raw = await page.evaluate(async () => {
+    // Layout shift entries aren't in the DOM typings yet
+    type LayoutShift = PerformanceEntry & { value: number; hadRecentInput: boolean };
+
+    // Buffered entries are delivered on the first callback; resolve null if the type is unsupported
+    const observe = (type: string) => new Promise<PerformanceEntry[] | null>(resolve => {
+      if (!PerformanceObserver.supportedEntryTypes?.includes(type)) {
+        resolve(null);
+        return;
+      }
+      const observer = new PerformanceObserver(list => {
+        observer.disconnect();
+        resolve(list.getEntries());
+      });
+      observer.observe({ type, buffered: true });
+      setTimeout(() => {
+        observer.disconnect();
+        resolve([]);
+      }, 200);
+    });
+
+    const [lcpEntries, shiftEntries] = await Promise.all([
+      observe('largest-contentful-paint'),
+      observe('layout-shift') as Promise<LayoutShift[] | null>,
+    ]);
+
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+    // transferSize is 0 for cached and cross-origin responses without Timing-Allow-Origin
+    const size = (entry: PerformanceResourceTiming) => entry.transferSize || entry.encodedBodySize || 0;
+
+    return {
+      lcp: lcpEntries && lcpEntries.length > 0 ? lcpEntries[lcpEntries.length - 1].startTime : null,
+      cls: shiftEntries
+        ? shiftEntries.filter(e => !e.hadRecentInput).reduce((sum, e) => sum + e.value, 0)
+        : null,
+      ttfb: navigation ? navigation.responseStart : null,
+      transfer: (navigation ? size(navigation) : 0) + resources.reduce((sum, r) => sum + size(r), 0),
+      js: resources
+        .filter(r => r.initiatorType === 'script' || /\.m?js(\?|#|$)/.test(r.name))
+        .reduce((sum, r) => sum + size(r), 0),
+    };
+  });
+
+  return {
+    url: page.url(),
+    lcp_ms: raw.lcp !== null ? Math.round(raw.lcp) : undefined,
+    cls: raw.cls !== null ? Math.round(raw.cls * 1000) / 1000 : undefined,
+    ttfb_ms: raw.ttfb !== null ? Math.round(raw.ttfb) : undefined,
+    transfer_bytes: raw.transfer,
+    js_bytes: raw.js,
+  };
+}
+
+/**
+ * One-line summary for logs, e.g. "LCP 1240ms · CLS 0.02 · TTFB 180ms · 850 KB (JS 320 KB)".
+ */
+export function formatMetrics(metrics: NavigationMetrics): string {
+  const parts: string[] = [];
+  if (metrics.lcp_ms !== undefined) parts.push(`LCP ${metrics.lcp_ms}ms`);
+  if (metrics.cls !== undefined) parts.push(`CLS ${metrics.cls}`);
+  if (metrics.ttfb_ms !== undefined) parts.push(`TTFB ${metrics.ttfb_ms}ms`);
+  parts.push(`${Math.round(metrics.transfer_bytes / 1024)} KB (JS ${Math.round(metrics.js_bytes / 1024)} KB)`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,82 @@
+import { ResultPayload } from '../api/client';
+import { DASHBOARD_URL, postPRComment } from './github';
+
+const createComment = jest.fn();
+
+jest.mock('@actions/core');
+jest.mock('@actions/github', () => ({
+  context: {
+    eventName: 'pull_request',
+    payload: { pull_request: { number: 7 } },
+    repo: { owner: 'acme', repo: 'shop' },
+  },
+  getOctokit: () => ({
+    rest: {
+      issues: {
+        listComments: async () => ({ data: [] }),
+        createComment,
+        updateComment: jest.fn(),
+      },
+    },
+  }),
+}));
+
+const failedCheckout: ResultPayload = {
+  flow_name: 'Checkout',
+  status: 'failed',
+  duration_ms: 1200,
+  error_message: 'Step failed: Pay - Timeout',
+  screenshot_urls: ['./screenshots/checkout-desktop-failure-1.png'],
+  steps: [
+    { description: 'Open cart', status: 'passed', duration_ms: 400, screenshot: './screenshots/checkout-desktop-step-0.jpg' },
+    { description: 'Pay', status: 'failed', duration_ms: 800, error: 'Timeout', screenshot: './screenshots/checkout-desktop-failure-1.png' },
+  ],
+};
+
+async function postedBody(results: ResultPayload[], dashboardUrl?: string): Promise<string> {
+  createComment.mockClear();
+  await postPRComment({ flows: [], risk_score: 3 }, results, 'run-123', dashboardUrl);
+  return createComment.mock.calls[0][0].body;
+}
+
+describe('postPRComment', () => {
+  beforeAll(() => {
+    process.env.GITHUB_TOKEN = 'test-token';
+  });
+
+  it('links the filmstrip and the run to the dashboard', async () => {
+    const body = await postedBody([failedCheckout], DASHBOARD_URL);
+    expect(body).toContain('What the browser saw');
+    expect(body).toContain(`[View the step screenshots and page snapshots →](${DASHBOARD_URL}/runs/run-123)`);
+    expect(body).toContain(`[View detailed results →](${DASHBOARD_URL}/runs/run-123)`);
+  });
+
+  it('never lists runner-local screenshot paths', async () => {
+    const body = await postedBody([failedCheckout], DASHBOARD_URL);
+    expect(body).not.toContain('./screenshots/');
+  });
+
+  it('links a visual diff to the dashboard instead of the runner path', async () => {
+    const changed: ResultPayload = {
+      flow_name: 'Home',
+      status: 'passed',
+      duration_ms: 900,
+      steps: [],
+      screenshot_urls: [],
+      visual: {
+        status: 'visual_changed',
+        diff_ratio: 0.0123,
+        baseline_path: './scoutai-baselines/home.png',
+        diff_path: './scoutai-visual-diffs/home.png',
+      },
+    };
+    const body = await postedBody([changed], DASHBOARD_URL);
+    expect(body).toContain(`1.23% of pixels differ from baseline ([view diff](${DASHBOARD_URL}/runs/run-123))`);
+    expect(body).not.toContain('scoutai-visual-diffs');
+  });
+
+  it('leaves the filmstrip out without a dashboard to link to', async () => {
+    const body = await postedBody([failedCheckout]);
+    expect(body).not.toContain('What the browser saw');
+  });
+});
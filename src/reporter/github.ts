@@ -1,11 +1,13 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { ResultPayload, TestPlan, DiffFile } from '../api/client';
+import { AccessibilityViolation, NavigationMetrics, ResultPayload, StepResult, TestPlan, DiffFile } from '../api/client';
+import { AuthResult } from '../auth';
 
 export interface TestSummary {
   passed: number;
   failed: number;
   skipped: number;
+  flaky: number;
   duration_ms: number;
 }
 
@@ -14,15 +16,250 @@ export function calculateSummary(results: ResultPayload[]): TestSummary {
     passed: results.filter(r => r.status === 'passed').length,
     failed: results.filter(r => r.status === 'failed').length,
     skipped: results.filter(r => r.status === 'skipped').length,
+    flaky: results.filter(r => r.status === 'flaky').length,
     duration_ms: results.reduce((sum, r) => sum + r.duration_ms, 0),
   };
 }
 
+// Where uploaded run results (screenshots, snapshots, visual diffs) can be viewed
+export const DASHBOARD_URL = 'https://scoutai.app';
+
+export function runDashboardUrl(runId: string, dashboardUrl: string = DASHBOARD_URL): string {
+  return `${dashboardUrl}/runs/${runId}`;
+}
+
+const BROWSER_LABELS: Record<string, string> = {
+  chromium: 'Chromium',
+  firefox: 'Firefox',
+  webkit: 'WebKit',
+};
+
+function statusIcon(status: ResultPayload['status'] | StepResult['status']): string {
+  switch (status) {
+    case 'passed':
+      return '✅';
+    case 'failed':
+      return '❌';
+    case 'flaky':
+      return '🔁';
+    default:
+      return '⏭️';
+  }
+}
+
+/**
+ * Summarize retries, e.g. "passed on attempt 2 of 2" with the first failure.
+ */
+function formatAttempts(result: ResultPayload): string {
+  if (!result.attempts || result.attempts.length < 2) return '';
+  const firstFailure = result.attempts.find(a => a.status === 'failed');
+  const outcome = result.status === 'flaky'
+    ? `Flaky: passed on attempt ${result.attempts.length} of ${result.attempts.length}`
+    : `Failed all ${result.attempts.length} attempts`;
+  const detail = result.status === 'flaky' && firstFailure?.error_message
+    ? ` (first failure: ${firstFailure.error_message})`
+    : '';
+  return `> 🔁 ${outcome}${detail}\n`;
+}
+
+/**
+ * Format the trace location for a failed flow, with the command to open it.
+ */
+function formatTraceLink(result: ResultPayload): string {
+  if (!result.trace_path) return '';
+  return `> 🔍 Trace: \`${result.trace_path}\` (open with \`npx playwright show-trace ${result.trace_path}\`)\n`;
+}
+
+/**
+ * Format console errors, uncaught exceptions and failed requests as a collapsible block.
+ */
+function formatDiagnostics(result: ResultPayload): string {
+  const d = result.diagnostics;
+  if (!d) return '';
+
+  const counts = [
+    d.page_errors.length > 0 ? `${d.page_errors.length} uncaught exception(s)` : null,
+    d.console_errors.length > 0 ? `${d.console_errors.length} console error(s)` : null,
+    d.failed_requests.length > 0 ? `${d.failed_requests.length} failed request(s)` : null,
+  ].filter(Boolean);
+  if (counts.length === 0) return '';
+
+  let section = `<details>\n<summary>⚠️ ${counts.join(', ')}</summary>\n\n`;
+  for (const error of d.page_errors) {
+    section += `- 💥 \`${error}\`\n`;
+  }
+  for (const error of d.console_errors) {
+    section += `- 🖥️ \`${error}\`\n`;
+  }
+  for (const req of d.failed_requests) {
+    section += `- 🌐 ${req.method} \`${req.url}\` → ${req.status ?? req.failure}\n`;
+  }
+  section += `</details>\n\n`;
+  return section;
+}
+
+/**
+ * List each step, linking to the dashboard run where its filmstrip frame and the
+ * DOM and accessibility tree snapshots of the failed step were uploaded, as a
+ * collapsible block. Shown for flows that didn't pass, when there's a run to link to.
+ */
+function formatFilmstrip(result: ResultPayload, runUrl?: string): string {
+  if (result.status === 'passed' || !runUrl) return '';
+  const captured = (step: StepResult) => !!(step.screenshot || step.dom_snapshot || step.accessibility_tree);
+  if (!result.steps.some(captured)) return '';
+
+  let section = `<details>\n<summary>🎞️ What the browser saw</summary>\n\n`;
+  result.steps.forEach((step, i) => {
+    section += `${i + 1}. ${statusIcon(step.status)} ${step.description}${captured(step) ? ' 📷' : ''}\n`;
+  });
+  section += `\n[View the step screenshots and page snapshots →](${runUrl})\n`;
+  section += `</details>\n\n`;
+  return section;
+}
+
+/**
+ * Format a single flow result line with its error and details.
+ * The role is shown when flows ran as more than one account.
+ */
+function formatResult(result: ResultPayload, showRole: boolean = false, runUrl?: string): string {
+  const icon = statusIcon(result.status);
+  const role = showRole && result.role ? ` as \`${result.role}\`` : '';
+  let line = `${icon} **${result.flow_name}**${role} (${(result.duration_ms / 1000).toFixed(1)}s)\n`;
+  if (result.error_message) {
+    line += `> ${result.error_message}\n`;
+  }
+  for (const step of result.steps) {
+    if (step.healed_selector) {
+      line += `> 🩹 Healed selector in "${step.description}": now \`${step.healed_selector}\`\n`;
+    }
+  }
+  // The first failure is the error message; list the soft assertions that failed after it
+  for (const step of result.steps.filter(s => s.status === 'failed').slice(1)) {
+    line += `> ❌ "${step.description}": ${step.error}\n`;
+  }
+  const skipped = result.steps.filter(s => s.status === 'skipped').length;
+  if (skipped > 0) {
+    line += `> ⏭️ ${skipped} step${skipped > 1 ? 's' : ''} skipped after the failure\n`;
+  }
+  for (const metrics of result.performance || []) {
+    if (metrics.budget_violations?.length && metrics.budget_mode === 'warn') {
+      line += `> ⚡ Over performance budget on \`${urlPath(metrics.url)}\`: ${metrics.budget_violations.join(', ')}\n`;
+    }
+  }
+  if (result.visual?.status === 'visual_changed') {
+    // The diff image is uploaded with the results, so link the run rather than the runner path
+    const diffLink = runUrl && result.visual.diff_path ? ` ([view diff](${runUrl}))` : '';
+    line += `> 🖼️ Visual change: ${(result.visual.diff_ratio * 100).toFixed(2)}% of pixels differ from baseline${diffLink}\n`;
+  }
+  line += formatAttempts(result);
+  line += formatTraceLink(result);
+  line += formatFilmstrip(result, runUrl);
+  line += formatDiagnostics(result);
+  return line;
+}
+
+function urlPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Format Web Vitals for each page flows navigated to, first measurement per page.
+ * Collapsed unless a page is over its budget.
+ */
+function formatPerformance(results: ResultPayload[]): string {
+  const pages = new Map<string, NavigationMetrics>();
+  for (const metrics of results.flatMap(r => r.performance || [])) {
+    const key = urlPath(metrics.url);
+    // Prefer a measurement that broke its budget so it isn't hidden behind a passing one
+    if (!pages.has(key) || (metrics.budget_violations?.length && !pages.get(key)!.budget_violations?.length)) {
+      pages.set(key, metrics);
+    }
+  }
+  if (pages.size === 0) return '';
+
+  const overBudget = [...pages.values()].filter(m => m.budget_violations?.length).length;
+  const kb = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+  let section = `<details${overBudget > 0 ? ' open' : ''}>\n`;
+  section += `<summary>⚡ Performance (${pages.size} page${pages.size === 1 ? '' : 's'}`;
+  section += overBudget > 0 ? `, ${overBudget} over budget)</summary>\n\n` : `)</summary>\n\n`;
+  section += `| Page | LCP | CLS | TTFB | Transfer | JS |\n`;
+  section += `|------|-----|-----|------|----------|----|\n`;
+  for (const [pagePath, m] of pages) {
+    const marker = m.budget_violations?.length ? (m.budget_mode === 'warn' ? '⚠️ ' : '❌ ') : '';
+    const lcp = m.lcp_ms !== undefined ? `${m.lcp_ms}ms` : '-';
+    const cls = m.cls !== undefined ? `${m.cls}` : '-';
+    const ttfb = m.ttfb_ms !== undefined ? `${m.ttfb_ms}ms` : '-';
+    section += `| ${marker}\`${pagePath}\` | ${lcp} | ${cls} | ${ttfb} | ${kb(m.transfer_bytes)} | ${kb(m.js_bytes)} |\n`;
+  }
+  section += `</details>\n\n`;
+  return section;
+}
+
+/**
+ * Format accessibility violations as a table, most severe first.
+ */
+function formatAccessibility(violations: AccessibilityViolation[]): string {
+  if (violations.length === 0) return '';
+
+  const maxRows = 20;
+  const changedCount = violations.filter(v => v.changed_page).length;
+  let section = `### ♿ Accessibility (${violations.length} violation${violations.length === 1 ? '' : 's'})\n\n`;
+  // Not compared with earlier runs, so these can include problems the page already had
+  if (changedCount > 0) {
+    section += `✏️ ${changedCount} on a page changed in this PR\n\n`;
+  }
+  section += `| Impact | Rule | Page | Elements |\n`;
+  section += `|--------|------|------|----------|\n`;
+  for (const v of violations.slice(0, maxRows)) {
+    const pagePath = urlPath(v.page_url);
+    const marker = v.changed_page ? '✏️ ' : '';
+    const elements = v.selectors.slice(0, 2).map(s => `\`${s}\``).join(', ');
+    const more = v.element_count > 2 ? ` +${v.element_count - 2}` : '';
+    section += `| ${marker}${v.impact} | [${v.rule}](${v.help_url}) | \`${pagePath}\` | ${elements}${more} |\n`;
+  }
+  if (violations.length > maxRows) {
+    section += `\n*... and ${violations.length - maxRows} more*\n`;
+  }
+  return section + '\n';
+}
+
+const AUTH_STAGE_LABELS: Record<NonNullable<AuthResult['stage']>, string> = {
+  config: 'Configuration',
+  login_page: 'Opening login page',
+  credentials: 'Entering credentials',
+  mfa: 'Two-factor code',
+  verify: 'Confirming login',
+};
+
+/**
+ * Format failed logins, so it's clear the flows ran without that account's session.
+ */
+function formatAuthFailures(failures: AuthResult[]): string {
+  if (failures.length === 0) return '';
+
+  let section = `### 🔐 Authentication Failed\n\n`;
+  section += `Flows for these accounts ran without a session, so failures below may be login problems.\n\n`;
+  section += `| Account | Role | Type | Failed at | Error |\n`;
+  section += `|---------|------|------|-----------|-------|\n`;
+  for (const f of failures) {
+    const stage = f.stage ? AUTH_STAGE_LABELS[f.stage] : '-';
+    const error = (f.error || 'Unknown error').replace(/\s+/g, ' ').replace(/\|/g, '\\|').substring(0, 200);
+    section += `| ${f.account || '-'} | ${f.role || '-'} | ${f.authType || '-'} | ${stage} | ${error} |\n`;
+  }
+  return section + '\n';
+}
+
 export async function postPRComment(
   testPlan: TestPlan,
   results: ResultPayload[],
   runId: string,
-  dashboardUrl?: string
+  dashboardUrl?: string,
+  accessibility: AccessibilityViolation[] = [],
+  authFailures: AuthResult[] = []
 ): Promise<void> {
   const token = process.env.GITHUB_TOKEN;
   if (!token) {
@@ -37,10 +274,11 @@ export async function postPRComment(
   }
 
   const summary = calculateSummary(results);
+  const runUrl = dashboardUrl ? runDashboardUrl(runId, dashboardUrl) : undefined;
   const octokit = github.getOctokit(token);
   const prNumber = context.payload.pull_request.number;
 
-  const statusEmoji = summary.failed > 0 ? '❌' : '✅';
+  const statusEmoji = summary.failed > 0 ? '❌' : summary.flaky > 0 ? '⚠️' : '✅';
   const duration = (summary.duration_ms / 1000).toFixed(1);
 
   let body = `## ${statusEmoji} ScoutAI QA Results\n\n`;
@@ -48,47 +286,63 @@ export async function postPRComment(
   body += `|--------|-------|\n`;
   body += `| ✅ Passed | ${summary.passed} |\n`;
   body += `| ❌ Failed | ${summary.failed} |\n`;
+  if (summary.flaky > 0) {
+    body += `| 🔁 Flaky | ${summary.flaky} |\n`;
+  }
   body += `| ⏭️ Skipped | ${summary.skipped} |\n`;
+  const visualChanges = results.filter(r => r.visual?.status === 'visual_changed').length;
+  if (visualChanges > 0) {
+    body += `| 🖼️ Visual Changes | ${visualChanges} |\n`;
+  }
   body += `| ⏱️ Duration | ${duration}s |\n`;
   body += `| 🎯 Risk Score | ${testPlan.risk_score}/10 |\n\n`;
 
+  body += formatAuthFailures(authFailures);
+
   if (results.length > 0) {
-    // Group results by viewport
+    const showRoles = new Set(results.map(r => r.role).filter(Boolean)).size > 1;
+
+    // Group results by browser and viewport
+    const browsers = [...new Set(results.map(r => r.browser || 'chromium'))];
     const viewports = [...new Set(results.map(r => r.viewport || 'desktop'))];
 
-    if (viewports.length > 1) {
-      // Multiple viewports - group by viewport
-      for (const viewport of viewports) {
-        const viewportResults = results.filter(r => (r.viewport || 'desktop') === viewport);
-        const viewportIcon = viewport === 'mobile' ? '📱' : '🖥️';
-        const viewportLabel = viewport.charAt(0).toUpperCase() + viewport.slice(1);
-
-        body += `### ${viewportIcon} ${viewportLabel} Results\n\n`;
-        for (const result of viewportResults) {
-          const icon = result.status === 'passed' ? '✅' : result.status === 'failed' ? '❌' : '⏭️';
-          body += `${icon} **${result.flow_name}** (${(result.duration_ms / 1000).toFixed(1)}s)\n`;
-          if (result.error_message) {
-            body += `> ${result.error_message}\n`;
+    if (browsers.length > 1 || viewports.length > 1) {
+      // Multiple browsers/viewports - one section per combination
+      for (const browser of browsers) {
+        for (const viewport of viewports) {
+          const groupResults = results.filter(r =>
+            (r.browser || 'chromium') === browser && (r.viewport || 'desktop') === viewport
+          );
+          if (groupResults.length === 0) continue;
+
+          // Desktop and custom WIDTHxHEIGHT sizes are desktop-like; presets/devices are handhelds
+          const viewportIcon = viewport === 'desktop' || /^\d+x\d+$/.test(viewport) ? '🖥️' : '📱';
+          const labels: string[] = [];
+          if (browsers.length > 1) labels.push(BROWSER_LABELS[browser] || browser);
+          if (viewports.length > 1) labels.push(viewport.charAt(0).toUpperCase() + viewport.slice(1));
+
+          body += `### ${viewportIcon} ${labels.join(' · ')} Results\n\n`;
+          for (const result of groupResults) {
+            body += formatResult(result, showRoles, runUrl);
           }
+          body += '\n';
         }
-        body += '\n';
       }
     } else {
-      // Single viewport - simple list
+      // Single browser and viewport - simple list
       body += `### Flow Results\n\n`;
       for (const result of results) {
-        const icon = result.status === 'passed' ? '✅' : result.status === 'failed' ? '❌' : '⏭️';
-        body += `${icon} **${result.flow_name}** (${(result.duration_ms / 1000).toFixed(1)}s)\n`;
-        if (result.error_message) {
-          body += `> ${result.error_message}\n`;
-        }
+        body += formatResult(result, showRoles, runUrl);
       }
       body += '\n';
     }
   }
 
-  if (dashboardUrl) {
-    body += `[View detailed results →](${dashboardUrl}/runs/${runId})\n\n`;
+  body += formatPerformance(results);
+  body += formatAccessibility(accessibility);
+
+  if (runUrl) {
+    body += `[View detailed results →](${runUrl})\n\n`;
   }
 
   body += `---\n`;
@@ -1,6 +1,7 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { ResultPayload } from '../api/client';
+import { FlowDiagnostics, ResultPayload } from '../api/client';
+import { runDashboardUrl } from './github';
 
 export interface RegressionIssue {
   title: string;
@@ -12,7 +13,14 @@ export interface RegressionIssue {
     status: string;
     duration_ms: number;
     error?: string;
+    expected?: string;
+    actual?: string;
+    healed_selector?: string;
+    screenshot?: string;
+    dom_snapshot?: string;
+    accessibility_tree?: string;
   }>;
+  diagnostics?: FlowDiagnostics;
   runId: string;
   prNumber?: number;
   commitSha?: string;
@@ -37,15 +45,34 @@ export async function createRegressionIssue(
   // Build the issue body
   const stepsMarkdown = regression.steps
     .map((s, i) => {
-      const icon = s.status === 'passed' ? '✅' : '❌';
+      const icon = s.status === 'passed' ? '✅' : s.status === 'skipped' ? '⏭️' : '❌';
       const error = s.error ? `\n   > Error: ${s.error}` : '';
-      return `${i + 1}. ${icon} ${s.description} (${(s.duration_ms / 1000).toFixed(1)}s)${error}`;
+      const diff = s.status === 'failed' && s.expected !== undefined
+        ? `\n   > Expected: \`${s.expected}\`\n   > Actual: \`${s.actual}\``
+        : '';
+      const healed = s.healed_selector ? `\n   > Healed selector: \`${s.healed_selector}\`` : '';
+      return `${i + 1}. ${icon} ${s.description} (${(s.duration_ms / 1000).toFixed(1)}s)${error}${diff}${healed}`;
     })
     .join('\n');
 
   // For screenshots, we can't embed base64 in issues, so we note they're available
-  const screenshotSection = regression.screenshots.length > 0
-    ? `### Screenshots\n${regression.screenshots.length} screenshot(s) captured. View them in the [ScoutAI Dashboard](https://scoutai.app/runs/${regression.runId}).`
+  // Step screenshots and the page at failure (HTML, accessibility tree) are uploaded with the run too
+  const stepCaptures = regression.steps.some(s => s.screenshot || s.dom_snapshot || s.accessibility_tree)
+    ? ' Step screenshots and snapshots of the page at failure are there too.'
+    : '';
+  const screenshotSection = regression.screenshots.length > 0 || stepCaptures
+    ? `### Screenshots\n${regression.screenshots.length} screenshot(s) captured. View them in the [ScoutAI Dashboard](${runDashboardUrl(regression.runId)}).${stepCaptures}`
+    : '';
+
+  const diagnostics = regression.diagnostics;
+  const diagnosticLines = diagnostics ? [
+    ...diagnostics.page_errors.map(e => `- **Uncaught exception**: \`${e}\``),
+    ...diagnostics.console_errors.map(e => `- **Console error**: \`${e}\``),
+    ...diagnostics.failed_requests.map(r =>
+      `- **Failed request**: ${r.method} \`${r.url}\` → ${r.status ?? r.failure}`),
+  ] : [];
+  const diagnosticsSection = diagnosticLines.length > 0
+    ? `### Page Diagnostics\n\n${diagnosticLines.join('\n')}\n`
     : '';
 
   const contextLines = [
@@ -67,6 +94,7 @@ ${stepsMarkdown}
 
 ${screenshotSection}
 
+${diagnosticsSection}
 ### Context
 
 ${contextLines}
@@ -129,6 +157,12 @@ export async function createIssuesForFailures(
 ): Promise<string[]> {
   const failedFlows = results.filter(r => r.status === 'failed');
 
+  // Flaky flows passed on retry - log them, but don't report them as regressions
+  const flakyFlows = results.filter(r => r.status === 'flaky');
+  if (flakyFlows.length > 0) {
+    core.info(`Not creating issues for ${flakyFlows.length} flaky flow(s): ${flakyFlows.map(f => f.flow_name).join(', ')}`);
+  }
+
   if (failedFlows.length === 0) {
     return [];
   }
@@ -139,11 +173,12 @@ export async function createIssuesForFailures(
 
   for (const flow of failedFlows) {
     const issueUrl = await createRegressionIssue({
-      title: `Test failure: ${flow.flow_name}`,
+      title: `Test failure: ${flow.flow_name}${flow.role ? ` (as ${flow.role})` : ''}`,
       flowName: flow.flow_name,
       errorMessage: flow.error_message || 'Test assertion failed',
       screenshots: flow.screenshot_urls || [],
       steps: flow.steps,
+      diagnostics: flow.diagnostics,
       runId,
       prNumber,
       commitSha,
@@ -0,0 +1,102 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { VisualResult } from '../api/client';
+
+/**
+ * Settings for visual regression checks.
+ */
+export interface VisualOptions {
+  baselineDir: string;        // Where baseline screenshots are stored (cache this between runs)
+  diffDir: string;            // Where diff images are written
+  threshold?: number;         // Per-pixel color tolerance, 0-1 (default: 0.1)
+  maxDiffRatio?: number;      // Fraction of pixels that may differ before it's a change (default: 0.001)
+  maskSelectors?: string[];   // Elements to mask out of screenshots (timestamps, ads, avatars)
+  updateBaselines?: boolean;  // Overwrite baselines with the current screenshots
+}
+
+/**
+ * Build a stable baseline key from the flow name, browser and viewport.
+ * Flow IDs change between plans, so the name is used instead.
+ */
+export function baselineKey(flowName: string, browser: string, viewport: string): string {
+  const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug(flowName)}--${slug(browser)}--${slug(viewport)}`;
+}
+
+function readPng(filePath: string): PNG {
+  return PNG.sync.read(fs.readFileSync(filePath));
+}
+
+/**
+ * Compare a screenshot against its stored baseline.
+ * With no baseline yet (or when updating), the screenshot becomes the baseline.
+ */
+export function compareWithBaseline(
+  screenshotPath: string,
+  key: string,
+  options: VisualOptions
+): VisualResult {
+  const baselinePath = path.join(options.baselineDir, `${key}.png`);
+
+  if (options.updateBaselines || !fs.existsSync(baselinePath)) {
+    fs.mkdirSync(options.baselineDir, { recursive: true });
+    fs.copyFileSync(screenshotPath, baselinePath);
+    core.info(`  Saved visual baseline: ${baselinePath}`);
+    return { status: 'new_baseline', baseline_path: baselinePath, diff_ratio: 0 };
+  }
+
+  const baseline = readPng(baselinePath);
+  const current = readPng(screenshotPath);
+
+  // Full-page screenshots change height when content changes; compare the overlap
+  // and count the rest as different
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const a = padTo(baseline, width, height);
+  const b = padTo(current, width, height);
+  const diff = new PNG({ width, height });
+
+  const diffPixels = pixelmatch(a.data, b.data, diff.data, width, height, {
+    threshold: options.threshold ?? 0.1,
+  });
+  const diffRatio = diffPixels / (width * height);
+  const maxDiffRatio = options.maxDiffRatio ?? 0.001;
+
+  if (diffRatio <= maxDiffRatio) {
+    return { status: 'unchanged', baseline_path: baselinePath, diff_ratio: diffRatio };
+  }
+
+  fs.mkdirSync(options.diffDir, { recursive: true });
+  const diffPath = path.join(options.diffDir, `${key}-diff.png`);
+  fs.writeFileSync(diffPath, PNG.sync.write(diff));
+  core.warning(`  Visual change detected: ${(diffRatio * 100).toFixed(2)}% of pixels differ (diff: ${diffPath})`);
+
+  return {
+    status: 'visual_changed',
+    baseline_path: baselinePath,
+    diff_path: diffPath,
+    diff_ratio: diffRatio,
+  };
+}
+
+/**
+ * Copy an image onto a canvas of the given size. The padding is opaque magenta
+ * so it registers as different from whatever the other image has there.
+ */
+function padTo(image: PNG, width: number, height: number): PNG {
+  if (image.width === width && image.height === height) {
+    return image;
+  }
+  const padded = new PNG({ width, height });
+  for (let i = 0; i < padded.data.length; i += 4) {
+    padded.data[i] = 255;
+    padded.data[i + 1] = 0;
+    padded.data[i + 2] = 255;
+    padded.data[i + 3] = 255;
+  }
+  PNG.bitblt(image, padded, 0, 0, image.width, image.height, 0, 0);
+  return padded;
+}